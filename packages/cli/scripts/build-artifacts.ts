@@ -1,14 +1,19 @@
 #!/usr/bin/env tsx
 /**
  * Build distributable data artefacts from CLI-package usb.ids.json (schema v2).
+ * With `USB_IDS_SIGNING_KEY` (PKCS#8 PEM) or `USB_IDS_SIGNING_KEY_FILE` set, every published
+ * data file also gets a detached Ed25519 `<file>.sig`.
  */
-import type { UsbDatasetV2, UsbDeviceV2, UsbIdsData } from "../../sdk/src/types";
+import type { UsbDatasetV2, UsbIdsData } from "../../sdk/src/types";
 import { Buffer } from "node:buffer";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as process from "node:process";
 import * as zlib from "node:zlib";
 import { isDatasetV2 } from "../../sdk/src/legacy/to-v1";
+import { toV2 } from "../../sdk/src/legacy/to-v2";
+import { signFile } from "../../sdk/src/node/signing";
+import { SIGNATURE_FILE_SUFFIX } from "../../sdk/src/signature";
 
 const root = process.cwd();
 const srcPath = path.join(root, "usb.ids.json");
@@ -30,32 +35,6 @@ function isV1VendorShape(x: unknown): x is UsbIdsData {
   );
 }
 
-/** Legacy flat vendor JSON → v2 shell (classes/HID/etc. empty until full parse). */
-function v1ToDatasetV2(data: UsbIdsData): UsbDatasetV2 {
-  const vendors: UsbDatasetV2["vendors"] = {};
-  for (const [vid, v] of Object.entries(data)) {
-    const devices: Record<string, UsbDeviceV2> = {};
-    for (const [did, d] of Object.entries(v.devices))
-      devices[did] = { devid: d.devid, devname: d.devname };
-    vendors[vid] = { vendor: v.vendor, name: v.name, devices };
-  }
-  return {
-    schemaVersion: 2,
-    vendors,
-    classes: {},
-    audioTerminals: {},
-    hidDescriptors: {},
-    hidItemTypes: {},
-    biasTypes: {},
-    phyTypes: {},
-    hidUsagePages: {},
-    languages: {},
-    hidCountryCodes: {},
-    videoTerminals: {},
-    hcts: {},
-  };
-}
-
 function readDataset(): UsbDatasetV2 {
   if (!fs.existsSync(srcPath)) {
     console.error(
@@ -65,11 +44,36 @@ function readDataset(): UsbDatasetV2 {
   }
   const raw = JSON.parse(fs.readFileSync(srcPath, "utf8")) as unknown;
   if (isDatasetV2(raw)) return raw;
-  if (isV1VendorShape(raw)) return v1ToDatasetV2(raw);
+  if (isV1VendorShape(raw)) return toV2(raw);
   console.error("usb.ids.json must be schema v2 or legacy v1 vendor map.");
   process.exit(1);
 }
 
+function readSigningKey(): string | null {
+  const keyFile = process.env.USB_IDS_SIGNING_KEY_FILE;
+  if (keyFile) return fs.readFileSync(path.resolve(root, keyFile), "utf8");
+  return process.env.USB_IDS_SIGNING_KEY || null;
+}
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const p = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(p) : [p];
+  });
+}
+
+/** Sign the package-root data files and everything under `dist/data`. */
+function signArtifacts(privateKey: string): void {
+  const rootFiles = ["usb.ids", "usb.ids.json", "usb.ids.version.json"]
+    .map((file) => path.join(root, file))
+    .filter((file) => fs.existsSync(file));
+  const files = [...rootFiles, ...listFiles(outDir)].filter(
+    (file) => !file.endsWith(SIGNATURE_FILE_SUFFIX),
+  );
+  for (const file of files) signFile(file, privateKey);
+  console.log(`Signed ${files.length} files`);
+}
+
 function main(): void {
   const dataset = readDataset();
 
@@ -155,6 +159,16 @@ function main(): void {
     }
   }
 
+  const signingKey = readSigningKey();
+  if (signingKey) {
+    try {
+      signArtifacts(signingKey);
+    } catch (e) {
+      console.error("Signing failed:", e);
+      process.exit(1);
+    }
+  }
+
   console.log(`Artifacts written to ${outDir}`);
 }
 
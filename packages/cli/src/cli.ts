@@ -1,13 +1,66 @@
 #!/usr/bin/env node
+import { Buffer } from "node:buffer";
 import * as fs from "node:fs";
 import { createServer } from "node:http";
 import * as path from "node:path";
-import { fileURLToPath } from "node:url";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import { Command, CommanderError } from "commander";
 import pc from "picocolors";
 import prompts from "prompts";
 import sirv from "sirv";
-import { config, fetchUsbIdsData, loadVersionInfo, saveUsbIdsToFile } from "@usb-ids/sdk";
+import type {
+  DatasetChange,
+  DatasetDiff,
+  DatasetDiffSection,
+  DecodedHidReportDescriptor,
+  DecodedUsbClass,
+  FetcherOptions,
+  HidReportItem,
+  SourceReport,
+  LangIdMatch,
+  UsbDatasetV2,
+  UsbIdPair,
+  UsbIdsChangelogEntry,
+  UsbIdsDiagnostic,
+} from "@usb-ids/sdk";
+import {
+  annotateSysfsDevices,
+  buildSubsystemIndex,
+  config,
+  countDatasetChanges,
+  DATASET_DIFF_SECTIONS,
+  decodeEd25519PublicKey,
+  decodeHidReportDescriptorInData,
+  diffDatasets,
+  DEFAULT_SYSFS_USB_ROOT,
+  ERROR_CODES,
+  fetchUsbIdsData,
+  findSubsystemDevices,
+  findLangIdsInData,
+  getHidUsageInData,
+  getHidUsagePageInData,
+  getSubsystemInData,
+  listHidUsagePagesInData,
+  listLangIdsInData,
+  loadChangelog,
+  loadJsonFile,
+  loadVersionInfo,
+  lookupInData,
+  parseLsusb,
+  parseUsbIdPair,
+  parseUsbIdsFull,
+  parseUsbIdsHeader,
+  resolveLangIdInData,
+  resolveLsusbInData,
+  scanSysfsUsbDevices,
+  searchHidUsagesInData,
+  searchInData,
+  serializeUsbIds,
+  toV2,
+  UsbApiError,
+  validateUsbIds,
+  verifyUsbData,
+} from "@usb-ids/sdk";
 
 const EXIT_CODES = {
   SUCCESS: 0,
@@ -16,6 +69,8 @@ const EXIT_CODES = {
   NETWORK: 4,
   PARSE: 5,
   FILESYSTEM: 6,
+  DOWNGRADE_REFUSED: 7,
+  INTEGRITY: 8,
 } as const;
 
 type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
@@ -25,12 +80,89 @@ type FetchCommandOptions = {
   offline?: boolean;
   yes?: boolean;
   interactive?: boolean;
+  source?: string[];
+  header?: string[];
+  timeout?: string;
+  retries?: string;
+  backoff?: string;
+  race?: boolean;
+  verbose?: boolean;
+  allowDowngrade?: boolean;
 };
 
 type UiCommandOptions = {
   port?: string;
 };
 
+type LookupCommandOptions = {
+  subsystem?: string;
+  parents?: boolean;
+  json?: boolean;
+};
+
+type SearchCommandOptions = {
+  limit?: string;
+  offset?: string;
+  vendor?: string;
+  json?: boolean;
+  ndjson?: boolean;
+  table?: boolean;
+};
+
+type DecodeCommandOptions = {
+  json?: boolean;
+};
+
+type ScanCommandOptions = {
+  sysfsRoot?: string;
+  json?: boolean;
+};
+
+type HidCommandOptions = {
+  search?: string;
+  json?: boolean;
+};
+
+type HidDecodeCommandOptions = {
+  hex?: string;
+  country?: string;
+  json?: boolean;
+};
+
+type DiffCommandOptions = {
+  json?: boolean;
+  markdown?: boolean;
+};
+
+type LintCommandOptions = {
+  json?: boolean;
+  strict?: boolean;
+};
+
+type ExportCommandOptions = {
+  format?: string;
+  output?: string;
+};
+
+type LangCommandOptions = {
+  json?: boolean;
+};
+
+type SearchResultRow = {
+  vendorId: string;
+  vendorName: string;
+  deviceId: string;
+  deviceName: string;
+};
+
+type DatasetLoadResult =
+  | { ok: true; dataset: UsbDatasetV2 }
+  | { ok: false; exitCode: ExitCode; code: string; message: string };
+
+type DatasetFileResult =
+  | { ok: true; dataset: UsbDatasetV2; version: string | null }
+  | { ok: false; exitCode: ExitCode; code: string; message: string };
+
 function stdout(message: string): void {
   process.stdout.write(`${message}\n`);
 }
@@ -59,7 +191,15 @@ function errorOut(message: string): void {
   stderr(pc.red(message));
 }
 
+function reportError(asJson: boolean, code: string, message: string): void {
+  if (asJson) jsonStdout({ ok: false, code, message });
+  else errorOut(message);
+}
+
 function classifyError(error: unknown): ExitCode {
+  if (error instanceof UsbApiError && error.code === ERROR_CODES.DOWNGRADE_REFUSED) {
+    return EXIT_CODES.DOWNGRADE_REFUSED;
+  }
   const msg = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
   if (
     msg.includes("unable to fetch") ||
@@ -82,6 +222,7 @@ function classifyError(error: unknown): ExitCode {
     msg.includes("write") ||
     msg.includes("read") ||
     msg.includes("enoent") ||
+    msg.includes("lock file") ||
     msg.includes("eacces")
   ) {
     return EXIT_CODES.FILESYSTEM;
@@ -94,6 +235,38 @@ function getCliPackageRoot(): string {
   return path.dirname(cliDir);
 }
 
+/**
+ * Data lookups prefer `usb.ids.json` in the working directory (where `fetch` writes) and fall back
+ * to the copy shipped with the package.
+ */
+function resolveDataRoot(): string {
+  const cwd = process.cwd();
+  if (fs.existsSync(path.join(cwd, config.USB_IDS_JSON_FILE))) return cwd;
+  return getCliPackageRoot();
+}
+
+function loadLocalDataset(): DatasetLoadResult {
+  const dataFile = path.join(resolveDataRoot(), config.USB_IDS_JSON_FILE);
+  if (!fs.existsSync(dataFile)) {
+    return {
+      ok: false,
+      exitCode: EXIT_CODES.DATA_MISSING,
+      code: "DATA_MISSING",
+      message: `${config.USB_IDS_JSON_FILE} does not exist, please run \`usb-ids fetch\` first`,
+    };
+  }
+  const raw = loadJsonFile<unknown>(dataFile);
+  if (!raw || typeof raw !== "object") {
+    return {
+      ok: false,
+      exitCode: EXIT_CODES.PARSE,
+      code: "PARSE_ERROR",
+      message: `Unable to read ${config.USB_IDS_JSON_FILE}`,
+    };
+  }
+  return { ok: true, dataset: toV2(raw as UsbDatasetV2) };
+}
+
 function resolveUiDistDir(): string {
   const cliDir = path.dirname(fileURLToPath(import.meta.url));
   const fromDistSibling = path.join(cliDir, "ui");
@@ -134,28 +307,41 @@ async function updateUsbIdsData(options: FetchCommandOptions = {}): Promise<Exit
       return EXIT_CODES.USAGE;
     }
 
+    const fetcherOptions = parseFetcherOptions(options);
+    if (typeof fetcherOptions === "string") {
+      errorOut(fetcherOptions);
+      return EXIT_CODES.USAGE;
+    }
+
     const forceUpdate = options.force ?? false;
     const offline = options.offline ?? false;
     const root = process.cwd();
     const fallbackFile = config.USB_IDS_JSON_FILE;
-    const jsonFile = path.join(root, config.USB_IDS_JSON_FILE);
-    const sources = offline ? [] : config.USB_IDS_SOURCE;
-
-    const { data, source, versionInfo } = await fetchUsbIdsData(
-      sources,
-      fallbackFile,
-      root,
-      forceUpdate,
-    );
-    await saveUsbIdsToFile(data, jsonFile);
+    const upstreamUrls = options.source?.map(toSourceUrl) ?? config.USB_IDS_SOURCE;
+    const sources = offline ? [] : upstreamUrls;
+
+    // Writes usb.ids, usb.ids.json and the manifest together under a lock file
+    const { source, versionInfo, changelogEntry, notModified, sourceReports } =
+      await fetchUsbIdsData(sources, fallbackFile, root, {
+        forceUpdate,
+        fetcher: fetcherOptions,
+        allowDowngrade: options.allowDowngrade,
+      });
 
     success("Data update completed");
     info(`Data source: ${source === "api" ? "Remote API" : "Local fallback file"}`);
+    if (notModified) info("Upstream not modified (HTTP 304); skipped download");
     info(`Vendor count: ${versionInfo.vendorCount}`);
     info(`Device count: ${versionInfo.deviceCount}`);
     info(`Release: ${versionInfo.releaseVersion}`);
     info(`Upstream database: ${versionInfo.upstreamVersion}`);
     info(`Build time: ${versionInfo.buildTimeFormatted}`);
+    if (changelogEntry) {
+      info(
+        `Changes since ${changelogEntry.fromUpstreamVersion}: ${formatChangeCounts(changelogEntry)}`,
+      );
+    }
+    if (options.verbose) printSourceReports(sourceReports);
     return EXIT_CODES.SUCCESS;
   } catch (error) {
     errorOut(`Update failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -163,6 +349,83 @@ async function updateUsbIdsData(options: FetchCommandOptions = {}): Promise<Exit
   }
 }
 
+/** Plain paths given to `--source` are read as `file:` URLs relative to the working directory. */
+function toSourceUrl(source: string): string {
+  return /^[a-z][a-z\d+.-]+:/i.test(source) ? source : pathToFileURL(path.resolve(source)).href;
+}
+
+/** Build transport options from `fetch` flags, or return a usage error message. */
+function parseFetcherOptions(options: FetchCommandOptions): FetcherOptions | string {
+  const headers: Record<string, string> = {};
+  for (const header of options.header ?? []) {
+    const at = header.indexOf(":");
+    const name = at > 0 ? header.slice(0, at).trim() : "";
+    if (!name) return `Invalid --header "${header}"; expected "Name: value"`;
+    headers[name] = header.slice(at + 1).trim();
+  }
+  const timeoutMs = parseNonNegativeInt(options.timeout, 45_000);
+  const retries = parseNonNegativeInt(options.retries, 3);
+  const backoffMs = parseNonNegativeInt(options.backoff, 250);
+  if (timeoutMs === null || retries === null || backoffMs === null) {
+    return "--timeout, --retries and --backoff must be non-negative integers";
+  }
+  if (retries === 0) return "--retries must be at least 1";
+  return {
+    headers,
+    timeoutMs,
+    retries,
+    backoffMs,
+    strategy: options.race ? "race" : "sequential",
+    logger: {
+      warn: (message, error) =>
+        warn(error instanceof Error ? `${message} ${error.message}` : message),
+    },
+  };
+}
+
+function printSourceReports(reports: SourceReport[]): void {
+  if (reports.length === 0) {
+    info("No sources queried");
+    return;
+  }
+  const cells = reports.map((r) => [
+    r.url,
+    r.selected ? `${r.status} (used)` : r.status,
+    `${r.latencyMs}ms`,
+    r.version ?? "-",
+    r.hash?.slice(0, 12) ?? r.error ?? "-",
+  ]);
+  for (const line of formatTable(["SOURCE", "STATUS", "LATENCY", "VERSION", "HASH/ERROR"], cells)) {
+    stdout(line);
+  }
+}
+
+function formatChangeCounts(entry: UsbIdsChangelogEntry): string {
+  const counts = (c: UsbIdsChangelogEntry["vendors"]) => `+${c.added} -${c.removed} ~${c.renamed}`;
+  return `vendors ${counts(entry.vendors)}, devices ${counts(entry.devices)}`;
+}
+
+function showVersionHistory(asJson: boolean): ExitCode {
+  const changelogFile = path.join(process.cwd(), config.USB_IDS_CHANGELOG_JSON_FILE);
+  const history = loadChangelog(changelogFile);
+
+  if (asJson) {
+    jsonStdout({ ok: true, history });
+    return EXIT_CODES.SUCCESS;
+  }
+  if (history.length === 0) {
+    info("No changelog entries yet; one is recorded each time `usb-ids fetch` downloads new data");
+    return EXIT_CODES.SUCCESS;
+  }
+  info("Update history (newest first):");
+  for (const entry of [...history].reverse()) {
+    info(
+      `  ${entry.timeFormatted}  ${entry.fromUpstreamVersion} → ${entry.toUpstreamVersion}  release ${entry.releaseVersion}  ${formatChangeCounts(entry)}`,
+    );
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
 function showVersionInfo(asJson: boolean): ExitCode {
   try {
     const root = process.cwd();
@@ -239,6 +502,845 @@ function checkUpdate(asJson: boolean): ExitCode {
   }
 }
 
+/** `--public-key` takes a key file (PEM or base64) or the base64 key itself. */
+function readPublicKey(value: string): string {
+  const key = fs.existsSync(value) ? fs.readFileSync(value, "utf8") : value;
+  decodeEd25519PublicKey(key);
+  return key;
+}
+
+function verifyLocalData(asJson: boolean, publicKeyOption?: string): ExitCode {
+  let publicKey: string | undefined;
+  try {
+    if (publicKeyOption !== undefined) publicKey = readPublicKey(publicKeyOption);
+  } catch (error) {
+    const message = `Invalid --public-key: ${error instanceof Error ? error.message : String(error)}`;
+    reportError(asJson, "USAGE_ERROR", message);
+    return EXIT_CODES.USAGE;
+  }
+  try {
+    const result = verifyUsbData({ rootDir: process.cwd(), publicKey });
+    const missing = result.issues.some(
+      (issue) => issue.code === "manifest-missing" || issue.code === "data-missing",
+    );
+    const badSignature = result.issues.some(
+      (issue) => issue.code === "signature-missing" || issue.code === "signature-invalid",
+    );
+    const failureCode = missing
+      ? "DATA_MISSING"
+      : badSignature
+        ? "SIGNATURE_INVALID"
+        : "INTEGRITY_MISMATCH";
+    if (asJson) {
+      jsonStdout({
+        ok: result.ok,
+        ...(result.ok ? {} : { code: failureCode }),
+        hashedFile: result.hashedFile,
+        upstreamVersion: result.manifest?.upstreamVersion ?? null,
+        issues: result.issues,
+      });
+    } else if (result.ok) {
+      success(
+        `${config.USB_IDS_JSON_FILE} matches ${config.USB_IDS_VERSION_JSON_FILE} (hash of ${result.hashedFile}, vendor and device counts${publicKey ? ", signatures" : ""})`,
+      );
+    } else {
+      for (const issue of result.issues) errorOut(issue.message);
+    }
+    if (result.ok) return EXIT_CODES.SUCCESS;
+    return missing ? EXIT_CODES.DATA_MISSING : EXIT_CODES.INTEGRITY;
+  } catch (error) {
+    const message = `Verify failed: ${error instanceof Error ? error.message : String(error)}`;
+    reportError(asJson, "PARSE_ERROR", message);
+    return EXIT_CODES.PARSE;
+  }
+}
+
+function lookupIds(ids: string[], options: LookupCommandOptions): ExitCode {
+  const asJson = Boolean(options.json);
+  const query = ids.join(" ");
+  const pair = parseUsbIdPair(query);
+  if (!pair) {
+    reportError(
+      asJson,
+      "USAGE_ERROR",
+      `Invalid USB ID "${query}" (expected vvvv:pppp, "vvvv pppp" or vvvv)`,
+    );
+    return EXIT_CODES.USAGE;
+  }
+  if (options.parents && options.subsystem !== undefined) {
+    reportError(asJson, "USAGE_ERROR", "--parents cannot be combined with --subsystem");
+    return EXIT_CODES.USAGE;
+  }
+
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+
+  if (options.parents) return lookupSubsystemParents(loaded.dataset, pair, asJson);
+
+  const subsystemPair = options.subsystem === undefined ? null : parseUsbIdPair(options.subsystem);
+  if (options.subsystem !== undefined && (!subsystemPair?.deviceId || !pair.deviceId)) {
+    reportError(
+      asJson,
+      "USAGE_ERROR",
+      "--subsystem expects svid:sdid and a parent vvvv:pppp ID to look it up under",
+    );
+    return EXIT_CODES.USAGE;
+  }
+
+  const { vendor, device, vendorId, deviceId } = lookupInData(
+    loaded.dataset,
+    pair.vendorId,
+    pair.deviceId,
+  );
+  if (!vendor || (deviceId && !device)) {
+    const id = deviceId ? `${vendorId}:${deviceId}` : vendorId;
+    reportError(asJson, "DATA_MISSING", `USB ID ${id} not found in ${config.USB_IDS_JSON_FILE}`);
+    return EXIT_CODES.DATA_MISSING;
+  }
+
+  if (subsystemPair?.deviceId && deviceId) {
+    const subsystem = getSubsystemInData(
+      loaded.dataset,
+      vendorId,
+      deviceId,
+      subsystemPair.vendorId,
+      subsystemPair.deviceId,
+    );
+    if (!subsystem) {
+      reportError(
+        asJson,
+        "DATA_MISSING",
+        `Subsystem ${subsystemPair.vendorId}:${subsystemPair.deviceId} not listed under ${vendorId}:${deviceId}`,
+      );
+      return EXIT_CODES.DATA_MISSING;
+    }
+    if (asJson) {
+      jsonStdout({ ok: true, subsystem });
+    } else {
+      info(`Device: ${subsystem.vendorId}:${subsystem.deviceId}  ${subsystem.deviceName}`);
+      info(`Subsystem: ${subsystem.subvendor}:${subsystem.subdevice}  ${subsystem.name}`);
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const subsystems = device?.subsystems ?? [];
+  if (asJson) {
+    jsonStdout({
+      ok: true,
+      vendor: {
+        id: vendor.vendor,
+        name: vendor.name,
+        deviceCount: Object.keys(vendor.devices).length,
+      },
+      device: device ? { id: device.devid, name: device.devname, subsystems } : null,
+    });
+    return EXIT_CODES.SUCCESS;
+  }
+
+  info(`Vendor: ${vendor.vendor}  ${vendor.name}`);
+  if (!device) {
+    info(`Device count: ${Object.keys(vendor.devices).length}`);
+    return EXIT_CODES.SUCCESS;
+  }
+  info(`Device: ${device.devid}  ${device.devname}`);
+  if (subsystems.length > 0) {
+    info("Subsystems:");
+    for (const s of subsystems) info(`  ${s.subvendor}:${s.subdevice}  ${s.name}`);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/** Reverse lookup: treat the ID as `svid[:sdid]` and list the devices that ship it. */
+function lookupSubsystemParents(dataset: UsbDatasetV2, pair: UsbIdPair, asJson: boolean): ExitCode {
+  const refs = findSubsystemDevices(
+    buildSubsystemIndex(dataset),
+    pair.vendorId,
+    pair.deviceId ?? undefined,
+  );
+  const id = pair.deviceId ? `${pair.vendorId}:${pair.deviceId}` : pair.vendorId;
+  if (refs.length === 0) {
+    reportError(asJson, "DATA_MISSING", `No devices list subsystem ${id}`);
+    return EXIT_CODES.DATA_MISSING;
+  }
+  if (asJson) {
+    jsonStdout({ ok: true, subsystem: id, total: refs.length, results: refs });
+    return EXIT_CODES.SUCCESS;
+  }
+  const cells = refs.map((r) => [
+    `${r.subvendor}:${r.subdevice}`,
+    r.name,
+    `${r.vendorId}:${r.deviceId}`,
+    `${r.vendorName} ${r.deviceName}`,
+  ]);
+  for (const line of formatTable(["SUBSYSTEM", "NAME", "PARENT", "PARENT NAME"], cells)) {
+    stdout(line);
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+function parseNonNegativeInt(input: string | undefined, fallback: number): number | null {
+  if (input === undefined) return fallback;
+  if (!/^\d+$/.test(input.trim())) return null;
+  return Number.parseInt(input, 10);
+}
+
+function highlightMatch(text: string, term: string): string {
+  if (!term) return text;
+  const lower = text.toLowerCase();
+  let out = "";
+  let from = 0;
+  let at = lower.indexOf(term, from);
+  while (at !== -1) {
+    out += text.slice(from, at) + pc.bold(pc.yellow(text.slice(at, at + term.length)));
+    from = at + term.length;
+    at = lower.indexOf(term, from);
+  }
+  return out + text.slice(from);
+}
+
+function formatTable(
+  header: string[],
+  cells: string[][],
+  mark: (text: string) => string = (text) => text,
+): string[] {
+  const widths = header.map((h, i) => Math.max(h.length, ...cells.map((c) => c[i].length)));
+  const line = (cols: string[], fmt: (text: string) => string) =>
+    cols
+      .map((c, i) => fmt(c) + " ".repeat(widths[i] - c.length))
+      .join("  ")
+      .trimEnd();
+  return [line(header, pc.bold), ...cells.map((c) => line(c, mark))];
+}
+
+function searchUsbIds(query: string, options: SearchCommandOptions): ExitCode {
+  const asJson = Boolean(options.json);
+  const formats = [options.json, options.ndjson, options.table].filter(Boolean).length;
+  if (formats > 1) {
+    reportError(asJson, "USAGE_ERROR", "Choose only one of --json, --ndjson or --table");
+    return EXIT_CODES.USAGE;
+  }
+
+  const limit = parseNonNegativeInt(options.limit, 20);
+  const offset = parseNonNegativeInt(options.offset, 0);
+  if (limit === null || offset === null) {
+    reportError(asJson, "USAGE_ERROR", "--limit and --offset must be non-negative integers");
+    return EXIT_CODES.USAGE;
+  }
+
+  const term = query.trim().toLowerCase();
+  if (!term) {
+    reportError(asJson, "USAGE_ERROR", "Search query must not be empty");
+    return EXIT_CODES.USAGE;
+  }
+
+  let vendorId: string | null = null;
+  if (options.vendor !== undefined) {
+    const pair = parseUsbIdPair(options.vendor);
+    if (!pair || pair.deviceId) {
+      reportError(asJson, "USAGE_ERROR", `Invalid vendor ID "${options.vendor}"`);
+      return EXIT_CODES.USAGE;
+    }
+    vendorId = pair.vendorId;
+  }
+
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+
+  const { vendors } = loaded.dataset;
+  if (vendorId && !vendors[vendorId]) {
+    reportError(
+      asJson,
+      "DATA_MISSING",
+      `Vendor ${vendorId} not found in ${config.USB_IDS_JSON_FILE}`,
+    );
+    return EXIT_CODES.DATA_MISSING;
+  }
+
+  const matches = searchInData(vendorId ? { [vendorId]: vendors[vendorId] } : vendors, query);
+  const rows: SearchResultRow[] = matches.slice(offset, offset + limit).map((m) => ({
+    vendorId: m.vendor.vendor,
+    vendorName: m.vendor.name,
+    deviceId: m.device.devid,
+    deviceName: m.device.devname,
+  }));
+
+  if (asJson) {
+    jsonStdout({ ok: true, query, total: matches.length, offset, limit, results: rows });
+    return EXIT_CODES.SUCCESS;
+  }
+  if (options.ndjson) {
+    for (const row of rows) jsonStdout(row);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (matches.length === 0) {
+    warn(`No devices matched "${query}"`);
+    return EXIT_CODES.SUCCESS;
+  }
+  if (rows.length === 0) {
+    warn(
+      offset >= matches.length
+        ? `Offset ${offset} is beyond the ${matches.length} matches for "${query}"`
+        : `${matches.length} devices matched "${query}"; --limit 0 shows none`,
+    );
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const mark = process.stdout.isTTY
+    ? (text: string) => highlightMatch(text, term)
+    : (text: string) => text;
+  if (options.table) {
+    const cells = rows.map((r) => [`${r.vendorId}:${r.deviceId}`, r.vendorName, r.deviceName]);
+    for (const line of formatTable(["ID", "VENDOR", "DEVICE"], cells, mark)) stdout(line);
+  } else {
+    for (const r of rows) {
+      stdout(
+        `${mark(`${r.vendorId}:${r.deviceId}`)}  ${mark(r.vendorName)}  ${mark(r.deviceName)}`,
+      );
+    }
+  }
+  stdout(pc.dim(`Showing ${offset + 1}-${offset + rows.length} of ${matches.length} matches`));
+  return EXIT_CODES.SUCCESS;
+}
+
+async function readInputBytes(file: string | undefined): Promise<Buffer> {
+  if (file && file !== "-") return fs.readFileSync(file);
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk as Buffer));
+  return Buffer.concat(chunks);
+}
+
+async function readInputText(file: string | undefined): Promise<string> {
+  return (await readInputBytes(file)).toString("utf8");
+}
+
+function describeClassCell(c: DecodedUsbClass): string {
+  const codes = `${c.classCode}/${c.subclassCode}/${c.protocolCode}`;
+  const name = c.protocolName ?? c.subclassName ?? c.className;
+  return name ? `${codes} ${name}` : `${codes} (unknown)`;
+}
+
+async function decodeLsusb(
+  file: string | undefined,
+  options: DecodeCommandOptions,
+): Promise<ExitCode> {
+  const asJson = Boolean(options.json);
+  if ((!file || file === "-") && process.stdin.isTTY) {
+    reportError(asJson, "USAGE_ERROR", "Provide an lsusb dump file or pipe it via stdin");
+    return EXIT_CODES.USAGE;
+  }
+
+  let text: string;
+  try {
+    text = await readInputText(file);
+  } catch (error) {
+    reportError(
+      asJson,
+      "FILESYSTEM_ERROR",
+      `Failed to read input: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_CODES.FILESYSTEM;
+  }
+
+  const entries = parseLsusb(text);
+  if (entries.length === 0) {
+    reportError(asJson, "PARSE_ERROR", "No `Bus … Device … ID vvvv:pppp` lines found in input");
+    return EXIT_CODES.PARSE;
+  }
+
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+
+  const devices = resolveLsusbInData(loaded.dataset, entries);
+  const unknownCount = devices.filter((d) => d.unknown).length;
+  if (asJson) {
+    jsonStdout({ ok: true, total: devices.length, unknown: unknownCount, devices });
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const cells = devices.map((d) => [
+    d.bus,
+    d.device,
+    `${d.vendorId}:${d.productId}`,
+    d.vendorName ?? "(unknown)",
+    d.deviceName ?? "(unknown)",
+    d.interfaces.map(describeClassCell).join("; "),
+  ]);
+  const mark = (text: string) => (text.endsWith("(unknown)") ? pc.yellow(text) : text);
+  const header = ["BUS", "DEV", "ID", "VENDOR", "PRODUCT", "INTERFACES"];
+  for (const line of formatTable(header, cells, mark)) stdout(line);
+  if (unknownCount > 0) warn(`${unknownCount} device(s) not found in ${config.USB_IDS_JSON_FILE}`);
+  return EXIT_CODES.SUCCESS;
+}
+
+function scanUsbDevices(options: ScanCommandOptions): ExitCode {
+  const asJson = Boolean(options.json);
+  const sysfsRoot = options.sysfsRoot ?? DEFAULT_SYSFS_USB_ROOT;
+  let scanned: ReturnType<typeof scanSysfsUsbDevices>;
+  try {
+    scanned = scanSysfsUsbDevices({ sysfsRoot });
+  } catch (error) {
+    reportError(
+      asJson,
+      "FILESYSTEM_ERROR",
+      `Scan failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_CODES.FILESYSTEM;
+  }
+
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+
+  const devices = annotateSysfsDevices(loaded.dataset, scanned);
+  const unknownCount = devices.filter((d) => d.unknown).length;
+  if (asJson) {
+    jsonStdout({ ok: true, sysfsRoot, total: devices.length, unknown: unknownCount, devices });
+    return EXIT_CODES.SUCCESS;
+  }
+
+  if (devices.length === 0) {
+    warn(`No USB devices found under ${sysfsRoot}`);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const cells = devices.map((d) => [
+    d.name,
+    `${d.vendorId}:${d.productId}`,
+    d.vendorName ?? "(unknown)",
+    d.deviceName ?? "(unknown)",
+    [d.manufacturer, d.product].filter(Boolean).join(" ") || "-",
+  ]);
+  const mark = (text: string) => (text === "(unknown)" ? pc.yellow(text) : text);
+  const header = ["DEVICE", "ID", "VENDOR", "PRODUCT", "REPORTED"];
+  for (const line of formatTable(header, cells, mark)) stdout(line);
+  if (unknownCount > 0) warn(`${unknownCount} device(s) not found in ${config.USB_IDS_JSON_FILE}`);
+  return EXIT_CODES.SUCCESS;
+}
+
+function showHidUsages(
+  page: string | undefined,
+  usage: string | undefined,
+  options: HidCommandOptions,
+): ExitCode {
+  const asJson = Boolean(options.json);
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+  const { dataset } = loaded;
+
+  try {
+    const hidPage = page === undefined ? null : getHidUsagePageInData(dataset, page);
+    if (page !== undefined && !hidPage) {
+      reportError(asJson, "DATA_MISSING", `HID usage page ${page} not found`);
+      return EXIT_CODES.DATA_MISSING;
+    }
+
+    if (options.search !== undefined) {
+      const results = searchHidUsagesInData(dataset, options.search).filter(
+        (r) => !hidPage || r.pageCode === hidPage.pageCode,
+      );
+      if (asJson) {
+        jsonStdout({ ok: true, query: options.search, total: results.length, results });
+      } else if (results.length === 0) {
+        warn(`No HID usages matched "${options.search}"`);
+      } else {
+        const cells = results.map((r) => [
+          r.pageCode,
+          r.usageCode ?? "",
+          r.usageName ?? "",
+          r.pageName,
+        ]);
+        for (const line of formatTable(["PAGE", "USAGE", "NAME", "PAGE NAME"], cells)) stdout(line);
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    if (!hidPage) {
+      const pages = listHidUsagePagesInData(dataset);
+      if (asJson) {
+        jsonStdout({ ok: true, total: pages.length, pages });
+      } else if (pages.length === 0) {
+        warn(`No HID usage pages in ${config.USB_IDS_JSON_FILE}`);
+      } else {
+        const cells = pages.map((p) => [p.pageCode, p.name, String(p.usageCount)]);
+        for (const line of formatTable(["PAGE", "NAME", "USAGES"], cells)) stdout(line);
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    if (usage === undefined) {
+      if (asJson) {
+        jsonStdout({ ok: true, page: hidPage });
+      } else {
+        info(`Usage page: ${hidPage.pageCode}  ${hidPage.name}`);
+        const cells = Object.entries(hidPage.usages).map(([code, name]) => [code, name]);
+        for (const line of formatTable(["USAGE", "NAME"], cells)) stdout(line);
+      }
+      return EXIT_CODES.SUCCESS;
+    }
+
+    const match = getHidUsageInData(dataset, hidPage.pageCode, usage);
+    if (!match?.usageName) {
+      reportError(
+        asJson,
+        "DATA_MISSING",
+        `HID usage ${usage} not found on page ${hidPage.pageCode}`,
+      );
+      return EXIT_CODES.DATA_MISSING;
+    }
+    if (asJson) {
+      jsonStdout({ ok: true, usage: match });
+    } else {
+      info(`Usage page: ${match.pageCode}  ${match.pageName}`);
+      info(`Usage: ${match.usageCode}  ${match.usageName}`);
+    }
+    return EXIT_CODES.SUCCESS;
+  } catch (error) {
+    if (error instanceof UsbApiError) {
+      reportError(asJson, "USAGE_ERROR", error.message);
+      return EXIT_CODES.USAGE;
+    }
+    throw error;
+  }
+}
+
+/** Load a raw `usb.ids` file or a `usb.ids.json` (v1 or v2) export. */
+function loadDatasetFile(file: string): DatasetFileResult {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, "utf8");
+  } catch (error) {
+    const message = `Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`;
+    return { ok: false, exitCode: EXIT_CODES.FILESYSTEM, code: "FILESYSTEM_ERROR", message };
+  }
+  if (text.trimStart().startsWith("{")) {
+    try {
+      return { ok: true, dataset: toV2(JSON.parse(text) as UsbDatasetV2), version: null };
+    } catch {
+      return {
+        ok: false,
+        exitCode: EXIT_CODES.PARSE,
+        code: "PARSE_ERROR",
+        message: `Invalid JSON in ${file}`,
+      };
+    }
+  }
+  const dataset = parseUsbIdsFull(text);
+  if (Object.keys(dataset.vendors).length === 0) {
+    const message = `No usb.ids vendor entries found in ${file}`;
+    return { ok: false, exitCode: EXIT_CODES.PARSE, code: "PARSE_ERROR", message };
+  }
+  return { ok: true, dataset, version: parseUsbIdsHeader(text).version };
+}
+
+const DIFF_SECTION_TITLES: Record<DatasetDiffSection, string> = {
+  vendors: "Vendors",
+  devices: "Devices",
+  subsystems: "Subsystems",
+  classes: "Classes",
+  hidUsages: "HID usages",
+};
+
+function describeChange(change: DatasetChange): string {
+  if (change.kind === "renamed") return `${change.oldName} → ${change.newName}`;
+  return (change.kind === "added" ? change.newName : change.oldName) ?? "";
+}
+
+function printDiffMarkdown(diff: DatasetDiff, title: string): void {
+  stdout(`## ${title}`);
+  const counts = countDatasetChanges(diff);
+  for (const section of DATASET_DIFF_SECTIONS) {
+    const changes = diff[section];
+    if (changes.length === 0) continue;
+    const c = counts[section];
+    stdout("");
+    stdout(`### ${DIFF_SECTION_TITLES[section]} (+${c.added} -${c.removed} ~${c.renamed})`);
+    stdout("");
+    stdout("| Change | ID | Name |");
+    stdout("| --- | --- | --- |");
+    for (const change of changes) {
+      const name = describeChange(change).replaceAll("|", "\\|");
+      stdout(`| ${change.kind} | \`${change.id}\` | ${name} |`);
+    }
+  }
+}
+
+function printDiffHuman(diff: DatasetDiff, title: string): void {
+  info(title);
+  const counts = countDatasetChanges(diff);
+  const marks: Record<DatasetChange["kind"], string> = {
+    added: pc.green("+"),
+    removed: pc.red("-"),
+    renamed: pc.yellow("~"),
+  };
+  for (const section of DATASET_DIFF_SECTIONS) {
+    const changes = diff[section];
+    if (changes.length === 0) continue;
+    const c = counts[section];
+    stdout(`${DIFF_SECTION_TITLES[section]}: +${c.added} -${c.removed} ~${c.renamed}`);
+    for (const change of changes)
+      stdout(`  ${marks[change.kind]} ${change.id}  ${describeChange(change)}`);
+  }
+}
+
+function diffUsbIds(oldFile: string, newFile: string, options: DiffCommandOptions): ExitCode {
+  const asJson = Boolean(options.json);
+  const before = loadDatasetFile(oldFile);
+  if (!before.ok) {
+    reportError(asJson, before.code, before.message);
+    return before.exitCode;
+  }
+  const after = loadDatasetFile(newFile);
+  if (!after.ok) {
+    reportError(asJson, after.code, after.message);
+    return after.exitCode;
+  }
+
+  const diff = diffDatasets(before.dataset, after.dataset);
+  if (asJson) {
+    jsonStdout({
+      ok: true,
+      from: before.version,
+      to: after.version,
+      counts: countDatasetChanges(diff),
+      ...diff,
+    });
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const title = `usb.ids changes: ${before.version ?? oldFile} → ${after.version ?? newFile}`;
+  const total = DATASET_DIFF_SECTIONS.reduce((n, section) => n + diff[section].length, 0);
+  if (total === 0) {
+    if (options.markdown) stdout(`## ${title}\n\nNo changes.`);
+    else info(`${title}: no changes`);
+    return EXIT_CODES.SUCCESS;
+  }
+  if (options.markdown) printDiffMarkdown(diff, title);
+  else printDiffHuman(diff, title);
+  return EXIT_CODES.SUCCESS;
+}
+
+function formatDiagnostic(file: string, d: UsbIdsDiagnostic): string {
+  const severity = d.severity === "error" ? pc.red("error") : pc.yellow("warning");
+  return `${file}:${d.line}: ${severity} ${d.message} ${pc.dim(`(${d.code})`)}`;
+}
+
+async function lintUsbIds(file: string, options: LintCommandOptions): Promise<ExitCode> {
+  const asJson = Boolean(options.json);
+  let text: string;
+  try {
+    text = await readInputText(file);
+  } catch (error) {
+    reportError(
+      asJson,
+      "FILESYSTEM_ERROR",
+      `Failed to read input: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_CODES.FILESYSTEM;
+  }
+
+  const result = validateUsbIds(text);
+  // --strict gates on warnings too, e.g. for overlay files written by tooling
+  const ok = result.valid && !(options.strict && result.warningCount > 0);
+  if (asJson) {
+    jsonStdout({ ok, file, ...result });
+  } else {
+    for (const d of result.diagnostics) stdout(formatDiagnostic(file, d));
+    const summary = `${result.errorCount} error(s), ${result.warningCount} warning(s)`;
+    if (ok) success(`${file}: ${summary}`);
+    else errorOut(`${file}: ${summary}`);
+  }
+  return ok ? EXIT_CODES.SUCCESS : EXIT_CODES.PARSE;
+}
+
+function exportDataset(options: ExportCommandOptions): ExitCode {
+  const format = options.format ?? "json";
+  if (format !== "json" && format !== "usb.ids") {
+    errorOut(`Unknown export format "${format}" (expected json or usb.ids)`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    errorOut(loaded.message);
+    return loaded.exitCode;
+  }
+
+  let content: string;
+  if (format === "usb.ids") {
+    // Header comes from the manifest next to the data file, when there is one
+    const manifest = loadVersionInfo(
+      path.join(resolveDataRoot(), config.USB_IDS_VERSION_JSON_FILE),
+    );
+    content = serializeUsbIds(loaded.dataset, {
+      version: manifest?.upstreamVersion ?? null,
+      date: manifest?.upstreamDate ?? null,
+    });
+  } else {
+    content = `${JSON.stringify(loaded.dataset, null, 2)}\n`;
+  }
+
+  if (!options.output) {
+    process.stdout.write(content);
+    return EXIT_CODES.SUCCESS;
+  }
+  try {
+    fs.writeFileSync(options.output, content);
+  } catch (error) {
+    errorOut(
+      `Failed to write ${options.output}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_CODES.FILESYSTEM;
+  }
+  success(`Exported ${format} to ${options.output}`);
+  return EXIT_CODES.SUCCESS;
+}
+
+function printLangIdTable(matches: LangIdMatch[]): void {
+  const cells = matches.map((m) => [m.langId, m.language ?? "", m.sublanguage ?? ""]);
+  for (const line of formatTable(["LANGID", "LANGUAGE", "SUBLANGUAGE"], cells)) stdout(line);
+}
+
+function showLanguages(query: string | undefined, options: LangCommandOptions): ExitCode {
+  const asJson = Boolean(options.json);
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+  const { dataset } = loaded;
+  const term = query?.trim() ?? "";
+
+  if (!term) {
+    const all = listLangIdsInData(dataset);
+    if (asJson) jsonStdout({ ok: true, total: all.length, results: all });
+    else printLangIdTable(all);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  // Treat hex with at least one digit as a LANGID so names like "Bad" are never misread
+  if (/^(?:0x[0-9a-f]{1,4}|(?=[0-9a-f]*\d)[0-9a-f]{1,4})$/i.test(term)) {
+    const match = resolveLangIdInData(dataset, term);
+    if (!match.language) {
+      reportError(asJson, "DATA_MISSING", `LANGID ${match.langId} not found`);
+      return EXIT_CODES.DATA_MISSING;
+    }
+    if (asJson) {
+      jsonStdout({ ok: true, result: match });
+    } else {
+      info(`LANGID: ${match.langId}  ${match.name}`);
+      info(`Primary language: ${match.primaryCode}  ${match.language}`);
+      info(`Sublanguage: ${match.sublanguageCode}  ${match.sublanguage ?? "(neutral/unlisted)"}`);
+    }
+    return EXIT_CODES.SUCCESS;
+  }
+
+  const matches = findLangIdsInData(dataset, term);
+  if (matches.length === 0) {
+    reportError(asJson, "DATA_MISSING", `No language matched "${term}"`);
+    return EXIT_CODES.DATA_MISSING;
+  }
+  if (asJson) jsonStdout({ ok: true, query: term, total: matches.length, results: matches });
+  else printLangIdTable(matches);
+  return EXIT_CODES.SUCCESS;
+}
+
+function formatHidItems(items: HidReportItem[], depth: number, out: string[]): void {
+  for (const item of items) {
+    const name = item.name ?? pc.yellow(`Item ${item.tag}`);
+    // Items without data (End Collection, Push, Pop) carry no value worth printing
+    const detail = item.description ?? (item.bytes.length > 2 ? String(item.value) : null);
+    const label = detail === null ? name : `${name} (${detail})`;
+    out.push(`${item.bytes.padEnd(15)}${"  ".repeat(depth)}${label}`);
+    if (item.children) formatHidItems(item.children, depth + 1, out);
+  }
+}
+
+async function decodeHidReport(
+  file: string | undefined,
+  options: HidDecodeCommandOptions,
+): Promise<ExitCode> {
+  const asJson = Boolean(options.json);
+  const countryCode = parseNonNegativeInt(options.country, -1);
+  if (countryCode === null || countryCode > 0xff) {
+    reportError(asJson, "USAGE_ERROR", "--country must be an integer between 0 and 255");
+    return EXIT_CODES.USAGE;
+  }
+  if (options.hex === undefined && (!file || file === "-") && process.stdin.isTTY) {
+    reportError(asJson, "USAGE_ERROR", "Provide a descriptor file, --hex bytes or pipe via stdin");
+    return EXIT_CODES.USAGE;
+  }
+
+  let descriptor: string | Uint8Array;
+  if (options.hex !== undefined) {
+    descriptor = options.hex;
+  } else {
+    let bytes: Buffer;
+    try {
+      bytes = await readInputBytes(file);
+    } catch (error) {
+      reportError(
+        asJson,
+        "FILESYSTEM_ERROR",
+        `Failed to read input: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return EXIT_CODES.FILESYSTEM;
+    }
+    // usbhid-dump / hexdump-style text vs. the raw bytes sysfs exposes
+    const text = bytes.toString("latin1");
+    descriptor = /^[\s,0-9a-fx]*$/i.test(text) ? text : new Uint8Array(bytes);
+  }
+
+  const loaded = loadLocalDataset();
+  if (!loaded.ok) {
+    reportError(asJson, loaded.code, loaded.message);
+    return loaded.exitCode;
+  }
+
+  let decoded: DecodedHidReportDescriptor;
+  try {
+    decoded = decodeHidReportDescriptorInData(loaded.dataset, descriptor, {
+      countryCode: countryCode < 0 ? undefined : countryCode,
+    });
+  } catch (error) {
+    if (error instanceof UsbApiError) {
+      reportError(asJson, "PARSE_ERROR", error.message);
+      return EXIT_CODES.PARSE;
+    }
+    throw error;
+  }
+  if (decoded.itemCount === 0) {
+    reportError(asJson, "PARSE_ERROR", "HID report descriptor is empty");
+    return EXIT_CODES.PARSE;
+  }
+
+  if (asJson) {
+    jsonStdout({ ok: true, ...decoded });
+    return EXIT_CODES.SUCCESS;
+  }
+  if (decoded.country) {
+    info(`Country: ${decoded.country.code}  ${decoded.country.name ?? "(unknown)"}`);
+  }
+  const lines: string[] = [];
+  formatHidItems(decoded.items, 0, lines);
+  for (const line of lines) stdout(line);
+  return EXIT_CODES.SUCCESS;
+}
+
 async function startWebServer(port = 3000): Promise<ExitCode> {
   try {
     const distDir = resolveUiDistDir();
@@ -411,6 +1513,20 @@ function buildProgram(setExitCode: (code: ExitCode) => void): Command {
     .option("--offline", "Skip network fetch and only use local fallback data")
     .option("-y, --yes", "Skip interactive confirmation prompts")
     .option("--interactive", "Enable interactive prompts for confirmation")
+    .option(
+      "--source <url...>",
+      "Download from these URLs or paths instead (http(s), file:, data:)",
+    )
+    .option("--header <header...>", 'Extra HTTP request header, as "Name: value"')
+    .option("--timeout <ms>", "Per-attempt timeout in milliseconds, 0 to disable (default 45000)")
+    .option("--retries <n>", "Attempts per source (default 3)")
+    .option(
+      "--backoff <ms>",
+      "Initial retry delay in milliseconds, doubled per retry (default 250)",
+    )
+    .option("--race", "Query all sources at once and use the first with a newer version")
+    .option("--verbose", "Show latency, status, version and hash for each source")
+    .option("--allow-downgrade", "Accept upstream data older than the local manifest")
     .action(async (options: FetchCommandOptions) => {
       setExitCode(await updateUsbIdsData(options));
     });
@@ -419,9 +1535,11 @@ function buildProgram(setExitCode: (code: ExitCode) => void): Command {
     .command("version")
     .alias("info")
     .description("Show current version information")
+    .option("--history", "Show changes recorded by previous fetches")
     .option("--json", "Output machine-readable JSON")
-    .action((options: { json?: boolean }) => {
-      setExitCode(showVersionInfo(Boolean(options.json)));
+    .action((options: { history?: boolean; json?: boolean }) => {
+      const asJson = Boolean(options.json);
+      setExitCode(options.history ? showVersionHistory(asJson) : showVersionInfo(asJson));
     });
 
   program
@@ -432,6 +1550,125 @@ function buildProgram(setExitCode: (code: ExitCode) => void): Command {
       setExitCode(checkUpdate(Boolean(options.json)));
     });
 
+  program
+    .command("verify")
+    .description("Verify usb.ids.json and usb.ids against the version manifest")
+    .option(
+      "--public-key <key>",
+      "Also check .sig files against an Ed25519 public key (file or base64)",
+    )
+    .option("--json", "Output machine-readable JSON")
+    .action((options: { json?: boolean; publicKey?: string }) => {
+      setExitCode(verifyLocalData(Boolean(options.json), options.publicKey));
+    });
+
+  program
+    .command("lookup")
+    .description("Resolve a vendor[:device] ID to its usb.ids names")
+    .argument("<id...>", "USB ID as vvvv:pppp, vvvv pppp or vvvv")
+    .option("--subsystem <svid:sdid>", "Name a subsystem listed under the vvvv:pppp device")
+    .option("--parents", "Treat the ID as svid[:sdid] and list the devices shipping that subsystem")
+    .option("--json", "Output machine-readable JSON")
+    .action((ids: string[], options: LookupCommandOptions) => {
+      setExitCode(lookupIds(ids, options));
+    });
+
+  program
+    .command("search")
+    .description("Search vendors and devices by name or ID (ranked)")
+    .argument("<query>", "Text or hex ID fragment to search for")
+    .option("--limit <n>", "Maximum number of results (default 20)")
+    .option("--offset <n>", "Number of ranked results to skip (default 0)")
+    .option("--vendor <vid>", "Only search devices of this vendor")
+    .option("--json", "Output machine-readable JSON")
+    .option("--ndjson", "Output one JSON object per result line")
+    .option("--table", "Output an aligned table")
+    .action((query: string, options: SearchCommandOptions) => {
+      setExitCode(searchUsbIds(query, options));
+    });
+
+  program
+    .command("decode")
+    .description("Decode lsusb / lsusb -v output and resolve IDs and interface classes")
+    .argument("[file]", "File containing the lsusb dump (default: stdin)")
+    .option("--json", "Output machine-readable JSON")
+    .action(async (file: string | undefined, options: DecodeCommandOptions) => {
+      setExitCode(await decodeLsusb(file, options));
+    });
+
+  program
+    .command("scan")
+    .description("Scan attached USB devices via Linux sysfs and annotate them with usb.ids names")
+    .option("--sysfs-root <dir>", `sysfs USB devices directory (default ${DEFAULT_SYSFS_USB_ROOT})`)
+    .option("--json", "Output machine-readable JSON")
+    .action((options: ScanCommandOptions) => {
+      setExitCode(scanUsbDevices(options));
+    });
+
+  program
+    .command("hid")
+    .description("Look up HID usage pages and usages (lists pages when no page is given)")
+    .argument("[page]", "Usage page code in hex, e.g. 01 or 0x01")
+    .argument("[usage]", "Usage ID in hex, e.g. 30 or 0x30")
+    .option("--search <text>", "Search usage names across pages (or within [page])")
+    .option("--json", "Output machine-readable JSON")
+    .action((page: string | undefined, usage: string | undefined, options: HidCommandOptions) => {
+      setExitCode(showHidUsages(page, usage, options));
+    });
+
+  program
+    .command("hid-decode")
+    .description("Decode a HID report descriptor into named items and collections")
+    .argument(
+      "[file]",
+      "Raw descriptor (e.g. sysfs report_descriptor) or hex dump (default: stdin)",
+    )
+    .option("--hex <bytes>", 'Descriptor bytes as hex, e.g. "05 01 09 02 a1 01"')
+    .option("--country <code>", "HID descriptor bCountryCode to resolve (decimal)")
+    .option("--json", "Output machine-readable JSON")
+    .action(async (file: string | undefined, options: HidDecodeCommandOptions) => {
+      setExitCode(await decodeHidReport(file, options));
+    });
+
+  program
+    .command("lang")
+    .description("Resolve USB string descriptor LANGIDs to language names, or names to LANGIDs")
+    .argument("[query]", "LANGID in hex (e.g. 0409) or a language name (lists all when omitted)")
+    .option("--json", "Output machine-readable JSON")
+    .action((query: string | undefined, options: LangCommandOptions) => {
+      setExitCode(showLanguages(query, options));
+    });
+
+  program
+    .command("diff")
+    .description("Compare two usb.ids releases (raw usb.ids or JSON) and print a changelog")
+    .argument("<old>", "Older usb.ids or usb.ids.json file")
+    .argument("<new>", "Newer usb.ids or usb.ids.json file")
+    .option("--json", "Output machine-readable JSON")
+    .option("--markdown", "Output a Markdown changelog")
+    .action((oldFile: string, newFile: string, options: DiffCommandOptions) => {
+      setExitCode(diffUsbIds(oldFile, newFile, options));
+    });
+
+  program
+    .command("lint")
+    .description("Check usb.ids syntax, duplicates, ordering and whitespace")
+    .argument("<file>", "usb.ids file to check (`-` reads stdin)")
+    .option("--strict", "Fail on warnings as well as errors")
+    .option("--json", "Output machine-readable JSON")
+    .action(async (file: string, options: LintCommandOptions) => {
+      setExitCode(await lintUsbIds(file, options));
+    });
+
+  program
+    .command("export")
+    .description("Export the local dataset as schema v2 JSON or canonical usb.ids text")
+    .option("--format <format>", "json or usb.ids (default json)")
+    .option("--output <file>", "Write to a file instead of stdout")
+    .action((options: ExportCommandOptions) => {
+      setExitCode(exportDataset(options));
+    });
+
   program
     .command("ui")
     .description("Start web interface server")
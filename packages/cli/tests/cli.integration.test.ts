@@ -1,3 +1,4 @@
+import { generateKeyPairSync, sign } from "node:crypto";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
@@ -9,8 +10,8 @@ const pkgRoot = fileURLToPath(new URL("..", import.meta.url));
 const cliDist = path.join(pkgRoot, "dist", "cli.js");
 const tempDirs: string[] = [];
 
-async function runCli(args: string[], cwd = pkgRoot) {
-  return execa("node", [cliDist, ...args], { cwd, reject: false });
+async function runCli(args: string[], cwd = pkgRoot, input?: string) {
+  return execa("node", [cliDist, ...args], { cwd, reject: false, input });
 }
 
 function writeFixtureData(cwd: string): void {
@@ -53,6 +54,49 @@ function writeFixtureData(cwd: string): void {
   );
 }
 
+function writeDatasetV2(cwd: string): void {
+  fs.writeFileSync(
+    path.join(cwd, "usb.ids.json"),
+    JSON.stringify({
+      schemaVersion: 2,
+      vendors: {
+        "046d": {
+          vendor: "046d",
+          name: "Logitech, Inc.",
+          devices: {
+            c52b: {
+              devid: "c52b",
+              devname: "Unifying Receiver",
+              subsystems: [{ subvendor: "17aa", subdevice: "1234", name: "Fixture Subsystem" }],
+            },
+          },
+        },
+      },
+      classes: {},
+      audioTerminals: {},
+      hidDescriptors: {},
+      hidItemTypes: { "04": "Usage Page", "08": "Usage", a0: "Collection", c0: "End Collection" },
+      biasTypes: {},
+      phyTypes: {},
+      hidUsagePages: {
+        "01": {
+          pageCode: "01",
+          name: "Generic Desktop Controls",
+          usages: { "002": "Mouse", "006": "Keyboard", "030": "Direction-X" },
+        },
+        "07": { pageCode: "07", name: "Keyboard", usages: { "0e0": "LeftControl" } },
+      },
+      languages: {
+        "0009": { name: "English", dialects: { "01": "US", "02": "UK" } },
+        "000c": { name: "French", dialects: { "01": "French" } },
+      },
+      hidCountryCodes: { "32": "UK" },
+      videoTerminals: {},
+      hcts: {},
+    }),
+  );
+}
+
 function mkTmpDir(): string {
   const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usb-ids-cli-"));
   tempDirs.push(dir);
@@ -100,6 +144,35 @@ describe("usb-ids cli integration (dist/cli.js)", () => {
     expect(typeof payload.version.releaseVersion).toBe("string");
   });
 
+  it("lists recorded fetch changes for version --history", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const empty = await runCli(["version", "--history", "--json"], cwd);
+    expect(empty.exitCode).toBe(0);
+    expect(JSON.parse(empty.stdout)).toEqual({ ok: true, history: [] });
+
+    const counts = { added: 1, removed: 0, renamed: 2 };
+    fs.writeFileSync(
+      path.join(cwd, "usb.ids.changelog.json"),
+      JSON.stringify([
+        {
+          time: 0,
+          timeFormatted: "2026-06-01 00:00:00",
+          fromUpstreamVersion: "2026.05.06",
+          toUpstreamVersion: "2026.06.01",
+          releaseVersion: "2.20260601.0",
+          vendors: counts,
+          devices: counts,
+          previous: {},
+        },
+      ]),
+    );
+    const result = await runCli(["version", "--history"], cwd);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("2026.05.06 → 2026.06.01");
+    expect(result.stdout).toContain("vendors +1 -0 ~2, devices +1 -0 ~2");
+  });
+
   it("returns JSON for check --json", async () => {
     const cwd = mkTmpDir();
     writeFixtureData(cwd);
@@ -120,6 +193,495 @@ describe("usb-ids cli integration (dist/cli.js)", () => {
     expect(result.stderr).toBe("");
   });
 
+  it("fetches from a local --source path and validates transport flags", async () => {
+    const cwd = mkTmpDir();
+    fs.writeFileSync(
+      path.join(cwd, "mirror.ids"),
+      "# Version: 2026.06.01\n# Date:    2026-06-01 20:34:08\n1d6b  Linux Foundation\n\t0002  2.0 root hub\n",
+    );
+    const result = await runCli(
+      ["fetch", "--source", "missing.ids", "mirror.ids", "--retries", "1"],
+      cwd,
+    );
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain("missing.ids: ENOENT");
+    expect(result.stdout).toContain("Data source: Remote API");
+    expect(result.stdout).toContain("Upstream database: 2026.06.01");
+    expect(fs.existsSync(path.join(cwd, "usb.ids.json"))).toBe(true);
+
+    const badHeader = await runCli(["fetch", "--header", "no-colon"], cwd);
+    expect(badHeader.exitCode).toBe(2);
+    expect(badHeader.stderr).toContain('Invalid --header "no-colon"');
+    const badTimeout = await runCli(["fetch", "--timeout", "soon"], cwd);
+    expect(badTimeout.exitCode).toBe(2);
+  });
+
+  it("races mirrors for a newer version and reports each source with --verbose", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const mirror = (version: string) =>
+      `# Version: ${version}\n1d6b  Linux Foundation\n\t0002  2.0 root hub\n`;
+    fs.writeFileSync(path.join(cwd, "old.ids"), mirror("2025.01.01"));
+    fs.writeFileSync(path.join(cwd, "new.ids"), mirror("2026.06.01"));
+    const result = await runCli(
+      ["fetch", "--source", "old.ids", "new.ids", "--race", "--verbose"],
+      cwd,
+    );
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("Upstream database: 2026.06.01");
+    const rows = result.stdout.split("\n").filter((line) => line.includes(".ids"));
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/old\.ids\s+ok\s+\d+ms\s+2025\.01\.01\s+[0-9a-f]{12}$/);
+    expect(rows[1]).toMatch(/new\.ids\s+ok \(used\)\s+\d+ms\s+2026\.06\.01/);
+  });
+
+  it("refuses to replace data with an older upstream version unless allowed", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    fs.writeFileSync(
+      path.join(cwd, "old.ids"),
+      "# Version: 2025.01.01\n1d6b  Linux Foundation\n\t0002  2.0 root hub\n",
+    );
+    const refused = await runCli(["fetch", "--source", "old.ids"], cwd);
+    expect(refused.exitCode).toBe(7);
+    expect(refused.stderr).toContain(
+      "Refusing to replace upstream 2025.09.10 with older 2025.01.01",
+    );
+
+    const allowed = await runCli(["fetch", "--source", "old.ids", "--allow-downgrade"], cwd);
+    expect(allowed.exitCode).toBe(0);
+    expect(allowed.stdout).toContain("Upstream database: 2025.01.01");
+  });
+
+  it("verifies fetched data against the manifest and flags edits", async () => {
+    const cwd = mkTmpDir();
+    fs.writeFileSync(
+      path.join(cwd, "mirror.ids"),
+      "# Version: 2026.06.01\n1d6b  Linux Foundation\n\t0002  2.0 root hub\n",
+    );
+    expect((await runCli(["fetch", "--source", "mirror.ids"], cwd)).exitCode).toBe(0);
+    const ok = await runCli(["verify", "--json"], cwd);
+    expect(ok.exitCode).toBe(0);
+    expect(JSON.parse(ok.stdout)).toMatchObject({ ok: true, hashedFile: "usb.ids", issues: [] });
+
+    const jsonFile = path.join(cwd, "usb.ids.json");
+    const data = JSON.parse(fs.readFileSync(jsonFile, "utf8"));
+    data.vendors.ffff = { vendor: "ffff", name: "Injected", devices: {} };
+    fs.writeFileSync(jsonFile, JSON.stringify(data));
+    const bad = await runCli(["verify"], cwd);
+    expect(bad.exitCode).toBe(8);
+    expect(bad.stderr).toContain("usb.ids.json has 2 vendors; the manifest records 1");
+
+    fs.writeFileSync(jsonFile, JSON.stringify(data).slice(0, 40));
+    const truncated = await runCli(["verify", "--json"], cwd);
+    expect(truncated.exitCode).toBe(8);
+    expect(JSON.parse(truncated.stdout)).toMatchObject({
+      code: "INTEGRITY_MISMATCH",
+      issues: [expect.objectContaining({ code: "data-invalid" })],
+    });
+
+    fs.rmSync(path.join(cwd, "usb.ids.version.json"));
+    const missing = await runCli(["verify", "--json"], cwd);
+    expect(missing.exitCode).toBe(3);
+    expect(JSON.parse(missing.stdout)).toMatchObject({ ok: false, code: "DATA_MISSING" });
+  });
+
+  it("verifies detached signatures with --public-key", async () => {
+    const cwd = mkTmpDir();
+    fs.writeFileSync(
+      path.join(cwd, "mirror.ids"),
+      "# Version: 2026.06.01\n1d6b  Linux Foundation\n\t0002  2.0 root hub\n",
+    );
+    expect((await runCli(["fetch", "--source", "mirror.ids"], cwd)).exitCode).toBe(0);
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    fs.writeFileSync(
+      path.join(cwd, "key.pub"),
+      publicKey.export({ type: "spki", format: "pem" }).toString(),
+    );
+    for (const file of ["usb.ids", "usb.ids.json", "usb.ids.version.json"]) {
+      const signature = sign(null, fs.readFileSync(path.join(cwd, file)), privateKey);
+      fs.writeFileSync(path.join(cwd, `${file}.sig`), signature.toString("base64"));
+    }
+    const ok = await runCli(["verify", "--public-key", "key.pub", "--json"], cwd);
+    expect(ok.exitCode).toBe(0);
+    expect(JSON.parse(ok.stdout)).toMatchObject({ ok: true, issues: [] });
+
+    fs.rmSync(path.join(cwd, "usb.ids.sig"));
+    const unsigned = await runCli(["verify", "--public-key", "key.pub", "--json"], cwd);
+    expect(unsigned.exitCode).toBe(8);
+    expect(JSON.parse(unsigned.stdout)).toMatchObject({
+      ok: false,
+      code: "SIGNATURE_INVALID",
+      issues: [expect.objectContaining({ code: "signature-missing" })],
+    });
+
+    const badKey = await runCli(["verify", "--public-key", "not-a-key"], cwd);
+    expect(badKey.exitCode).toBe(2);
+  });
+
+  it("looks up vendor:device pairs as JSON", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const result = await runCli(["lookup", "046D:C52B", "--json"], cwd);
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toBe("");
+    const payload = JSON.parse(result.stdout) as {
+      ok: boolean;
+      vendor: { name: string };
+      device: { name: string; subsystems: Array<{ name: string }> };
+    };
+    expect(payload.ok).toBe(true);
+    expect(payload.vendor.name).toBe("Logitech, Inc.");
+    expect(payload.device.name).toBe("Unifying Receiver");
+    expect(payload.device.subsystems[0]?.name).toBe("Fixture Subsystem");
+  });
+
+  it("looks up space-separated ids and bare vendors against v1 data", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const pair = await runCli(["lookup", "1d6b", "0002"], cwd);
+    expect(pair.exitCode).toBe(0);
+    expect(pair.stdout).toContain("Linux Foundation");
+    expect(pair.stdout).toContain("2.0 root hub");
+    const vendor = await runCli(["lookup", "1d6b"], cwd);
+    expect(vendor.exitCode).toBe(0);
+    expect(vendor.stdout).toContain("Device count: 1");
+  });
+
+  it("resolves subsystems under a parent and lists parents of a subsystem", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const named = await runCli(["lookup", "046d:c52b", "--subsystem", "17aa:1234", "--json"], cwd);
+    expect(named.exitCode).toBe(0);
+    expect(JSON.parse(named.stdout)).toMatchObject({
+      ok: true,
+      subsystem: { vendorId: "046d", deviceId: "c52b", name: "Fixture Subsystem" },
+    });
+
+    const parents = await runCli(["lookup", "17aa", "--parents"], cwd);
+    expect(parents.exitCode).toBe(0);
+    expect(parents.stdout).toMatch(/^SUBSYSTEM\s+NAME\s+PARENT\s+PARENT NAME/);
+    expect(parents.stdout).toContain("046d:c52b");
+
+    const unlisted = await runCli(["lookup", "046d:c52b", "--subsystem", "17aa:ffff"], cwd);
+    expect(unlisted.exitCode).toBe(3);
+    const noParent = await runCli(["lookup", "046d", "--subsystem", "17aa:1234"], cwd);
+    expect(noParent.exitCode).toBe(2);
+    const both = await runCli(
+      ["lookup", "17aa", "--parents", "--subsystem", "17aa:1234", "--json"],
+      cwd,
+    );
+    expect(both.exitCode).toBe(2);
+    expect(JSON.parse(both.stdout)).toMatchObject({ ok: false, code: "USAGE_ERROR" });
+  });
+
+  it("returns data missing exit code for unknown lookup ids", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const result = await runCli(["lookup", "1d6b:ffff", "--json"], cwd);
+    expect(result.exitCode).toBe(3);
+    const payload = JSON.parse(result.stdout) as { ok: boolean; code: string };
+    expect(payload).toMatchObject({ ok: false, code: "DATA_MISSING" });
+  });
+
+  it("returns usage exit code for malformed lookup ids", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const result = await runCli(["lookup", "logitech"], cwd);
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr).toContain("Invalid USB ID");
+  });
+
+  it("searches with ranking, pagination and JSON output", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const result = await runCli(["search", "root hub", "--json", "--limit", "5"], cwd);
+    expect(result.exitCode).toBe(0);
+    const payload = JSON.parse(result.stdout) as {
+      ok: boolean;
+      total: number;
+      limit: number;
+      results: Array<{ vendorId: string; deviceId: string; deviceName: string }>;
+    };
+    expect(payload).toMatchObject({ ok: true, total: 1, limit: 5 });
+    expect(payload.results[0]).toMatchObject({ vendorId: "1d6b", deviceId: "0002" });
+
+    const skipped = await runCli(["search", "root hub", "--json", "--offset", "1"], cwd);
+    expect(JSON.parse(skipped.stdout)).toMatchObject({ total: 1, results: [] });
+
+    const pastEnd = await runCli(["search", "root hub", "--offset", "3"], cwd);
+    expect(pastEnd.exitCode).toBe(0);
+    expect(pastEnd.stderr).toContain('Offset 3 is beyond the 1 matches for "root hub"');
+    expect(pastEnd.stderr).not.toContain("No devices matched");
+  });
+
+  it("supports ndjson, table and vendor scoping for search", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const ndjson = await runCli(["search", "receiver", "--ndjson"], cwd);
+    expect(ndjson.exitCode).toBe(0);
+    expect(JSON.parse(ndjson.stdout.trim().split("\n")[0]!)).toMatchObject({
+      deviceId: "c52b",
+    });
+
+    const table = await runCli(["search", "receiver", "--table", "--vendor", "046d"], cwd);
+    expect(table.exitCode).toBe(0);
+    expect(table.stdout).toMatch(/^ID\s+VENDOR\s+DEVICE/);
+    expect(table.stdout).toContain("046d:c52b");
+
+    const unknownVendor = await runCli(["search", "receiver", "--vendor", "ffff"], cwd);
+    expect(unknownVendor.exitCode).toBe(3);
+  });
+
+  it("rejects conflicting search output flags", async () => {
+    const cwd = mkTmpDir();
+    writeFixtureData(cwd);
+    const result = await runCli(["search", "hub", "--json", "--table"], cwd);
+    expect(result.exitCode).toBe(2);
+  });
+
+  it("decodes lsusb output from stdin and flags unknown IDs", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const dump = [
+      "Bus 001 Device 002: ID 046d:c52b Logitech, Inc. Unifying Receiver",
+      "Bus 001 Device 003: ID ffff:0001",
+    ].join("\n");
+    const result = await runCli(["decode", "--json"], cwd, dump);
+    expect(result.exitCode).toBe(0);
+    const payload = JSON.parse(result.stdout) as {
+      ok: boolean;
+      total: number;
+      unknown: number;
+      devices: Array<{ deviceName: string | null; unknown: boolean }>;
+    };
+    expect(payload).toMatchObject({ ok: true, total: 2, unknown: 1 });
+    expect(payload.devices[0]).toMatchObject({ deviceName: "Unifying Receiver", unknown: false });
+
+    const table = await runCli(["decode", "-"], cwd, dump);
+    expect(table.exitCode).toBe(0);
+    expect(table.stdout).toMatch(/^BUS\s+DEV\s+ID/);
+    expect(table.stderr).toContain("1 device(s) not found");
+  });
+
+  it("decodes lsusb dumps from a file and rejects empty input", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const file = path.join(cwd, "lsusb.txt");
+    fs.writeFileSync(file, "Bus 001 Device 002: ID 046d:c52b Logitech, Inc.\n");
+    const result = await runCli(["decode", file], cwd);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("Unifying Receiver");
+
+    const empty = await runCli(["decode", "--json"], cwd, "nothing here\n");
+    expect(empty.exitCode).toBe(5);
+  });
+
+  it("scans a sysfs fixture tree and highlights unknown devices", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const sysfsRoot = path.join(cwd, "sysfs");
+    const attrs: Record<string, Record<string, string>> = {
+      "1-1": { idVendor: "046d", idProduct: "c52b", product: "USB Receiver" },
+      "1-2": { idVendor: "ffff", idProduct: "0001" },
+    };
+    for (const [name, values] of Object.entries(attrs)) {
+      fs.mkdirSync(path.join(sysfsRoot, name), { recursive: true });
+      for (const [attr, value] of Object.entries(values)) {
+        fs.writeFileSync(path.join(sysfsRoot, name, attr), `${value}\n`);
+      }
+    }
+
+    const result = await runCli(["scan", "--sysfs-root", sysfsRoot, "--json"], cwd);
+    expect(result.exitCode).toBe(0);
+    const payload = JSON.parse(result.stdout) as {
+      total: number;
+      unknown: number;
+      devices: Array<{ deviceName: string | null; product: string | null }>;
+    };
+    expect(payload).toMatchObject({ total: 2, unknown: 1 });
+    expect(payload.devices[0]).toMatchObject({
+      deviceName: "Unifying Receiver",
+      product: "USB Receiver",
+    });
+
+    const table = await runCli(["scan", "--sysfs-root", sysfsRoot], cwd);
+    expect(table.stdout).toMatch(/^DEVICE\s+ID\s+VENDOR/);
+    expect(table.stderr).toContain("1 device(s) not found");
+
+    const missing = await runCli(["scan", "--sysfs-root", path.join(cwd, "nope")], cwd);
+    expect(missing.exitCode).toBe(6);
+  });
+
+  it("resolves HID usages and lists pages", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const usage = await runCli(["hid", "0x01", "30", "--json"], cwd);
+    expect(usage.exitCode).toBe(0);
+    expect(JSON.parse(usage.stdout)).toMatchObject({
+      ok: true,
+      usage: { pageName: "Generic Desktop Controls", usageCode: "030", usageName: "Direction-X" },
+    });
+
+    const pages = await runCli(["hid"], cwd);
+    expect(pages.exitCode).toBe(0);
+    expect(pages.stdout).toMatch(/^PAGE\s+NAME\s+USAGES/);
+    expect(pages.stdout).toContain("Generic Desktop Controls");
+
+    const search = await runCli(["hid", "--search", "keyboard", "--json"], cwd);
+    const payload = JSON.parse(search.stdout) as { total: number; results: unknown[] };
+    expect(payload.total).toBe(1);
+
+    const missing = await runCli(["hid", "01", "ff"], cwd);
+    expect(missing.exitCode).toBe(3);
+    const invalid = await runCli(["hid", "zz"], cwd);
+    expect(invalid.exitCode).toBe(2);
+  });
+
+  it("decodes HID report descriptors from hex, files and stdin", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const human = await runCli(["hid-decode", "--hex", "05 01 09 02 a1 01 09 30 c0"], cwd);
+    expect(human.exitCode).toBe(0);
+    expect(human.stdout.split("\n")).toEqual([
+      "05 01          Usage Page (Generic Desktop Controls)",
+      "09 02          Usage (Mouse)",
+      "a1 01          Collection (Application)",
+      "09 30            Usage (Direction-X)",
+      "c0             End Collection",
+    ]);
+
+    const file = path.join(cwd, "report_descriptor");
+    fs.writeFileSync(file, Uint8Array.from([0x05, 0x07, 0x09, 0xe0]));
+    const fromFile = await runCli(["hid-decode", file, "--country", "32", "--json"], cwd);
+    expect(fromFile.exitCode).toBe(0);
+    expect(JSON.parse(fromFile.stdout)).toMatchObject({
+      ok: true,
+      itemCount: 2,
+      country: { code: 32, name: "UK" },
+      items: [{ description: "Keyboard" }, { description: "LeftControl", usagePage: "07" }],
+    });
+
+    const fromStdin = await runCli(["hid-decode", "--json"], cwd, "0x05, 0x01\n");
+    expect(JSON.parse(fromStdin.stdout).items[0].description).toBe("Generic Desktop Controls");
+
+    const truncated = await runCli(["hid-decode", "--hex", "05 01 26 ff", "--json"], cwd);
+    expect(truncated.exitCode).toBe(5);
+    expect(JSON.parse(truncated.stdout)).toMatchObject({ ok: false, code: "PARSE_ERROR" });
+  });
+
+  it("resolves LANGIDs and language names", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const byId = await runCli(["lang", "0x0809", "--json"], cwd);
+    expect(byId.exitCode).toBe(0);
+    expect(JSON.parse(byId.stdout)).toMatchObject({
+      ok: true,
+      result: { langId: "0809", language: "English", sublanguage: "UK", name: "English (UK)" },
+    });
+
+    const byName = await runCli(["lang", "French", "--json"], cwd);
+    const payload = JSON.parse(byName.stdout) as { results: Array<{ langId: string }> };
+    expect(payload.results.map((r) => r.langId)).toEqual(["000c", "040c"]);
+
+    const all = await runCli(["lang"], cwd);
+    expect(all.stdout).toMatch(/^LANGID\s+LANGUAGE\s+SUBLANGUAGE/);
+    expect(all.stdout.split("\n")).toHaveLength(6);
+
+    const missing = await runCli(["lang", "0419"], cwd);
+    expect(missing.exitCode).toBe(3);
+  });
+
+  it("exports the dataset as usb.ids text that parses back to the same data", async () => {
+    const cwd = mkTmpDir();
+    writeDatasetV2(cwd);
+    const result = await runCli(["export", "--format", "usb.ids"], cwd);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("046d  Logitech, Inc.\n\tc52b  Unifying Receiver");
+    expect(result.stdout).toContain("\t\t17aa 1234  Fixture Subsystem");
+    expect(result.stdout).toContain("HUT 01  Generic Desktop Controls");
+
+    const out = path.join(cwd, "export.json");
+    const json = await runCli(["export", "--output", out], cwd);
+    expect(json.exitCode).toBe(0);
+    const original = JSON.parse(fs.readFileSync(path.join(cwd, "usb.ids.json"), "utf8"));
+    expect(JSON.parse(fs.readFileSync(out, "utf8"))).toEqual(original);
+
+    const bad = await runCli(["export", "--format", "xml"], cwd);
+    expect(bad.exitCode).toBe(2);
+  });
+
+  it("diffs two releases given as raw usb.ids and JSON", async () => {
+    const cwd = mkTmpDir();
+    const oldFile = path.join(cwd, "old.ids");
+    const newFile = path.join(cwd, "new.ids");
+    fs.writeFileSync(
+      oldFile,
+      ["# Version: 2026.01.01", "046d  Logitech", "\tc52b  Receiver", "1d6b  Linux"].join("\n"),
+    );
+    fs.writeFileSync(
+      newFile,
+      ["# Version: 2026.02.01", "046d  Logitech, Inc.", "\tc52b  Receiver", "\tc534  Nano"].join(
+        "\n",
+      ),
+    );
+
+    const json = await runCli(["diff", oldFile, newFile, "--json"], cwd);
+    expect(json.exitCode).toBe(0);
+    const payload = JSON.parse(json.stdout);
+    expect(payload).toMatchObject({
+      ok: true,
+      from: "2026.01.01",
+      to: "2026.02.01",
+      counts: { vendors: { added: 0, removed: 1, renamed: 1 }, devices: { added: 1 } },
+    });
+    expect(payload.devices).toEqual([
+      { kind: "added", id: "046d:c534", oldName: null, newName: "Nano" },
+    ]);
+
+    const markdown = await runCli(["diff", oldFile, newFile, "--markdown"], cwd);
+    expect(markdown.stdout).toContain("## usb.ids changes: 2026.01.01 → 2026.02.01");
+    expect(markdown.stdout).toContain("| renamed | `046d` | Logitech → Logitech, Inc. |");
+
+    writeDatasetV2(cwd);
+    const human = await runCli(["diff", oldFile, "usb.ids.json"], cwd);
+    expect(human.exitCode).toBe(0);
+    expect(human.stdout).toMatch(/^Vendors: \+0 -1 ~1$/m);
+
+    const missing = await runCli(["diff", oldFile, "nope.ids", "--json"], cwd);
+    expect(missing.exitCode).toBe(6);
+  });
+
+  it("lints usb.ids files and gates on errors (or warnings with --strict)", async () => {
+    const cwd = mkTmpDir();
+    const clean = path.join(cwd, "clean.ids");
+    const messy = path.join(cwd, "messy.ids");
+    fs.writeFileSync(clean, ["0002  Second ", "0001  First"].join("\n"));
+    fs.writeFileSync(messy, ["046d  Logitech", "\tc52b  Receiver", "\tc52b  Again"].join("\n"));
+
+    const warnings = await runCli(["lint", clean], cwd);
+    expect(warnings.exitCode).toBe(0);
+    expect(warnings.stdout).toContain("clean.ids:1: warning Trailing whitespace");
+    expect(warnings.stdout).toContain("clean.ids:2: warning Unsorted vendor ID 0001");
+    const strict = await runCli(["lint", clean, "--strict", "--json"], cwd);
+    expect(strict.exitCode).toBe(5);
+    expect(JSON.parse(strict.stdout)).toMatchObject({ ok: false, valid: true, warningCount: 2 });
+
+    const json = await runCli(["lint", messy, "--json"], cwd);
+    expect(json.exitCode).toBe(5);
+    expect(JSON.parse(json.stdout).diagnostics).toEqual([
+      {
+        line: 3,
+        severity: "error",
+        code: "duplicate-id",
+        message: "Duplicate device ID c52b (first defined on line 2)",
+      },
+    ]);
+
+    const missing = await runCli(["lint", "nope.ids"], cwd);
+    expect(missing.exitCode).toBe(6);
+  });
+
   it("returns filesystem exit code for ui when dist/ui is missing", async () => {
     const result = await runCli(["ui", "--port", "3307"]);
     expect(result.exitCode).toBe(6);
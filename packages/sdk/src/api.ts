@@ -2,18 +2,113 @@
  * Node.js public API: load local data by default; `forceUpdate` runs a network refresh.
  */
 
+import type { UsbClassCode, UsbClassMatch } from "./pure/classes";
+import type { HidCode, HidUsageMatch, HidUsagePageSummary } from "./pure/hid";
+import type { DecodedHidReportDescriptor, HidReportDecodeOptions } from "./pure/hid-report";
+import type { LangIdCode, LangIdMatch } from "./pure/languages";
 import type { DeviceFilter, VendorFilter } from "./pure/query";
-import type { UsbDevice, UsbIdsData, UsbVendor } from "./types";
+import type { UsbSubsystemIndex, UsbSubsystemRef } from "./pure/subsystems";
+import type { UsbIndex } from "./pure/usb-index";
+import type {
+  UsbClassEntry,
+  UsbDatasetV2,
+  UsbDevice,
+  UsbDeviceV2,
+  UsbIdsData,
+  UsbVendor,
+  UsbVendorV2,
+} from "./types";
 import { ERROR_CODES, UsbApiError } from "./errors";
 import { isDatasetV2, toV1 } from "./legacy/to-v1";
-import { loadUsbData, type SdkDataSourceOptions, updateUsbData } from "./node/data";
+import { toV2 } from "./legacy/to-v2";
+import { loadUsbData, loadUsbDataset, type SdkDataSourceOptions, updateUsbData } from "./node/data";
+import { describeInterfaceInData, getClassInData, getSubclassInData } from "./pure/classes";
+import { getHidUsageInData, listHidUsagePagesInData, searchHidUsagesInData } from "./pure/hid";
+import { decodeHidReportDescriptorInData } from "./pure/hid-report";
+import { findLangIdsInData, resolveLangIdInData } from "./pure/languages";
 import { filterDevices, filterVendors, searchInData } from "./pure/query";
+import { buildSubsystemIndex, findSubsystemDevices, getSubsystemInData } from "./pure/subsystems";
+import { buildUsbIndex, isUsbIndex } from "./pure/usb-index";
 
 export { ERROR_CODES, UsbApiError } from "./errors";
-export { loadUsbData, loadUsbDataSync, resolveSdkDataSource, updateUsbData } from "./node/data";
-export type { ResolvedSdkDataSource, SdkDataSourceOptions } from "./node/data";
-export type { DeviceFilter, VendorFilter } from "./pure/query";
+export {
+  clearCache,
+  loadUsbData,
+  loadUsbDataset,
+  loadUsbDatasetSync,
+  loadUsbDataSync,
+  resolveSdkDataSource,
+  updateUsbData,
+  verifyUsbData,
+} from "./node/data";
+export type {
+  ResolvedSdkDataSource,
+  SdkDataSourceOptions,
+  UsbDataIntegrityIssue,
+  UsbDataIntegrityIssueCode,
+  UsbDataIntegrityReport,
+} from "./node/data";
+export { signEd25519, signFile, verifyEd25519SignatureSync } from "./node/signing";
+export { annotateSysfsDevices, DEFAULT_SYSFS_USB_ROOT, scanSysfsUsbDevices } from "./node/sysfs";
+export type {
+  AnnotatedSysfsDevice,
+  AnnotatedSysfsInterface,
+  SysfsScanOptions,
+  SysfsUsbDevice,
+  SysfsUsbInterface,
+} from "./node/sysfs";
+export type { DecodedUsbClass, UsbClassCode, UsbClassLevel, UsbClassMatch } from "./pure/classes";
+export {
+  decodeClassInData,
+  describeInterfaceInData,
+  getClassInData,
+  getSubclassInData,
+} from "./pure/classes";
+export type {
+  DatasetChange,
+  DatasetChangeCounts,
+  DatasetChangeKind,
+  DatasetDiff,
+  DatasetDiffSection,
+} from "./pure/diff";
+export { countDatasetChanges, DATASET_DIFF_SECTIONS, diffDatasets } from "./pure/diff";
+export type { HidCode, HidTableEntry, HidUsageMatch, HidUsagePageSummary } from "./pure/hid";
+export {
+  getHidCountryInData,
+  getHidDescriptorTypeInData,
+  getHidItemTypeInData,
+  getHidUsageInData,
+  getHidUsagePageInData,
+  listHidUsagePagesInData,
+  searchHidUsagesInData,
+} from "./pure/hid";
+export type {
+  DecodedHidReportDescriptor,
+  HidCountry,
+  HidItemKind,
+  HidReportDecodeOptions,
+  HidReportItem,
+} from "./pure/hid-report";
+export { decodeHidReportDescriptorInData } from "./pure/hid-report";
+export type { LangIdCode, LangIdMatch } from "./pure/languages";
+export { findLangIdsInData, listLangIdsInData, resolveLangIdInData } from "./pure/languages";
+export type { UsbIdLookup, UsbIdPair } from "./pure/lookup";
+export { lookupInData, parseUsbIdPair } from "./pure/lookup";
+export type { DecodedLsusbDevice, DecodedLsusbInterface } from "./pure/lsusb";
+export { resolveLsusbInData } from "./pure/lsusb";
+export { mergeOverlaysInData } from "./pure/overlay";
+export type { DeviceFilter, DeviceOf, VendorFilter } from "./pure/query";
 export { filterDevices, filterVendors, searchInData } from "./pure/query";
+export type { UsbSubsystemIndex, UsbSubsystemRef } from "./pure/subsystems";
+export { buildSubsystemIndex, findSubsystemDevices, getSubsystemInData } from "./pure/subsystems";
+export type {
+  UsbIndex,
+  UsbIndexedDevice,
+  UsbIndexedVendor,
+  UsbIndexPostings,
+} from "./pure/usb-index";
+export { buildUsbIndex, getInIndex, isUsbIndex } from "./pure/usb-index";
+export { decodeEd25519PublicKey, SIGNATURE_FILE_SUFFIX, verifyEd25519Signature } from "./signature";
 
 async function ensureFreshData(
   forceUpdate: boolean,
@@ -24,8 +119,10 @@ async function ensureFreshData(
       const { data } = await updateUsbData({ ...dataSource, force: true });
       return isDatasetV2(data) ? toV1(data) : (data as UsbIdsData);
     }
-    return await loadUsbData(dataSource);
+    return await loadUsbData({ ...dataSource, frozen: true });
   } catch (error) {
+    // Integrity, signature and downgrade failures keep their own codes
+    if (error instanceof UsbApiError) throw error;
     const cause = error instanceof Error ? error : undefined;
     throw new UsbApiError(
       `Failed to load USB ID's data: ${cause?.message ?? String(error)}`,
@@ -35,13 +132,77 @@ async function ensureFreshData(
   }
 }
 
+async function ensureFreshDataset(
+  forceUpdate: boolean,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbDatasetV2> {
+  try {
+    if (forceUpdate) {
+      const { data } = await updateUsbData({ ...dataSource, force: true });
+      return toV2(data);
+    }
+    return await loadUsbDataset({ ...dataSource, frozen: true });
+  } catch (error) {
+    // Integrity, signature and downgrade failures keep their own codes
+    if (error instanceof UsbApiError) throw error;
+    const cause = error instanceof Error ? error : undefined;
+    throw new UsbApiError(
+      `Failed to load USB ID's data: ${cause?.message ?? String(error)}`,
+      ERROR_CODES.NETWORK_ERROR,
+      cause,
+    );
+  }
+}
+
+/**
+ * Results that may point into the shared, frozen cache, copied unless the caller asked for
+ * `frozen` data. Forced updates and `cache: false` loads are private already.
+ */
+function ownCopy<T>(value: T, forceUpdate: boolean, dataSource?: SdkDataSourceOptions): T {
+  const shared = !forceUpdate && dataSource?.cache !== false;
+  return shared && !dataSource?.frozen ? structuredClone(value) : value;
+}
+
+/** Search indexes of cached datasets, rebuilt only when a different vendor map is loaded. */
+const usbIndexes = new WeakMap<Record<string, UsbVendor>, UsbIndex<UsbVendor>>();
+
+/**
+ * The data's `UsbIndex` when the loader cache is on; one-off loads are scanned directly, since
+ * building an index costs more than a single scan.
+ */
+function searchSource<V extends UsbVendor>(
+  data: Record<string, V>,
+  forceUpdate: boolean,
+  dataSource?: SdkDataSourceOptions,
+): Record<string, V> | UsbIndex<V> {
+  if (forceUpdate || dataSource?.cache === false) return data;
+  let index = usbIndexes.get(data) as UsbIndex<V> | undefined;
+  if (!index) {
+    index = buildUsbIndex(data);
+    usbIndexes.set(data, index);
+  }
+  return index;
+}
+
 export async function getVendors(
   filter?: VendorFilter,
   forceUpdate = false,
   dataSource?: SdkDataSourceOptions,
 ): Promise<UsbVendor[]> {
   const data = await ensureFreshData(forceUpdate, dataSource);
-  return filterVendors(data, filter);
+  return ownCopy(
+    filterVendors(searchSource(data, forceUpdate, dataSource), filter),
+    forceUpdate,
+    dataSource,
+  );
+}
+
+function pickVendor<V extends UsbVendor>(data: Record<string, V>, filter: VendorFilter): V | null {
+  if (typeof filter === "string" && /^[0-9a-f]{4}$/i.test(filter)) {
+    return data[filter.toLowerCase()] ?? null;
+  }
+  const vendors = filterVendors(data, filter);
+  return vendors[0] ?? null;
 }
 
 export async function getVendor(
@@ -50,11 +211,7 @@ export async function getVendor(
   dataSource?: SdkDataSourceOptions,
 ): Promise<UsbVendor | null> {
   const data = await ensureFreshData(forceUpdate, dataSource);
-  if (typeof filter === "string" && /^[0-9a-f]{4}$/i.test(filter)) {
-    return data[filter.toLowerCase()] ?? null;
-  }
-  const vendors = filterVendors(data, filter);
-  return vendors[0] ?? null;
+  return ownCopy(pickVendor(data, filter), forceUpdate, dataSource);
 }
 
 export async function getDevices(
@@ -68,7 +225,11 @@ export async function getDevices(
   if (!vendor) {
     return [];
   }
-  return filterDevices(vendor, filter);
+  const source = searchSource(data, forceUpdate, dataSource);
+  const devices = isUsbIndex(source)
+    ? filterDevices(source, filter, vendorId)
+    : filterDevices(vendor, filter);
+  return ownCopy(devices, forceUpdate, dataSource);
 }
 
 export async function getDevice(
@@ -78,7 +239,8 @@ export async function getDevice(
   dataSource?: SdkDataSourceOptions,
 ): Promise<UsbDevice | null> {
   const data = await ensureFreshData(forceUpdate, dataSource);
-  return data[vendorId.toLowerCase()]?.devices[deviceId.toLowerCase()] ?? null;
+  const device = data[vendorId.toLowerCase()]?.devices[deviceId.toLowerCase()] ?? null;
+  return ownCopy(device, forceUpdate, dataSource);
 }
 
 export async function searchDevices(
@@ -87,12 +249,171 @@ export async function searchDevices(
   dataSource?: SdkDataSourceOptions,
 ): Promise<Array<{ vendor: UsbVendor; device: UsbDevice }>> {
   const data = await ensureFreshData(forceUpdate, dataSource);
-  return searchInData(data, query);
+  const results = searchInData(searchSource(data, forceUpdate, dataSource), query);
+  return ownCopy(results, forceUpdate, dataSource);
 }
 
 export async function getUsbData(
   forceUpdate = false,
   dataSource?: SdkDataSourceOptions,
 ): Promise<UsbIdsData> {
-  return await ensureFreshData(forceUpdate, dataSource);
+  return ownCopy(await ensureFreshData(forceUpdate, dataSource), forceUpdate, dataSource);
+}
+
+/**
+ * Full schema v2 dataset (subsystems, classes, HID tables, languages, …); v1 sources are lifted
+ * with empty sections.
+ */
+export async function getDatasetV2(
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbDatasetV2> {
+  return ownCopy(await ensureFreshDataset(forceUpdate, dataSource), forceUpdate, dataSource);
+}
+
+export async function getVendorV2(
+  filter: VendorFilter,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbVendorV2 | null> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return ownCopy(pickVendor(dataset.vendors, filter), forceUpdate, dataSource);
+}
+
+export async function getDeviceV2(
+  vendorId: string,
+  deviceId: string,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbDeviceV2 | null> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  const device = dataset.vendors[vendorId.toLowerCase()]?.devices[deviceId.toLowerCase()] ?? null;
+  return ownCopy(device, forceUpdate, dataSource);
+}
+
+export async function searchDevicesV2(
+  query: string,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<Array<{ vendor: UsbVendorV2; device: UsbDeviceV2 }>> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  const results = searchInData(searchSource(dataset.vendors, forceUpdate, dataSource), query);
+  return ownCopy(results, forceUpdate, dataSource);
+}
+
+export async function getClass(
+  classCode: UsbClassCode,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbClassEntry | null> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return ownCopy(getClassInData(dataset, classCode), forceUpdate, dataSource);
+}
+
+export async function getSubclass(
+  classCode: UsbClassCode,
+  subclassCode: UsbClassCode,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbClassMatch> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return ownCopy(getSubclassInData(dataset, classCode, subclassCode), forceUpdate, dataSource);
+}
+
+export async function describeInterface(
+  classCode: UsbClassCode,
+  subclassCode: UsbClassCode,
+  protocolCode: UsbClassCode,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbClassMatch> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  const match = describeInterfaceInData(dataset, classCode, subclassCode, protocolCode);
+  return ownCopy(match, forceUpdate, dataSource);
+}
+
+export async function getHidUsage(
+  page: HidCode,
+  usage: HidCode,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<HidUsageMatch | null> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return getHidUsageInData(dataset, page, usage);
+}
+
+export async function searchHidUsages(
+  query: string,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<HidUsageMatch[]> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return searchHidUsagesInData(dataset, query);
+}
+
+export async function getHidUsagePages(
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<HidUsagePageSummary[]> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return listHidUsagePagesInData(dataset);
+}
+
+export async function decodeHidReportDescriptor(
+  descriptor: string | Uint8Array,
+  options: HidReportDecodeOptions = {},
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<DecodedHidReportDescriptor> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return decodeHidReportDescriptorInData(dataset, descriptor, options);
+}
+
+export async function resolveLangId(
+  langId: LangIdCode,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<LangIdMatch> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return resolveLangIdInData(dataset, langId);
+}
+
+export async function findLangIds(
+  name: string,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<LangIdMatch[]> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  return findLangIdsInData(dataset, name);
+}
+
+/** Reverse subsystem indexes, rebuilt only when a different dataset object is loaded. */
+const subsystemIndexes = new WeakMap<UsbDatasetV2, UsbSubsystemIndex>();
+
+export async function getSubsystemDevices(
+  subvendor: string,
+  subdevice?: string,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbSubsystemRef[]> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  let index = subsystemIndexes.get(dataset);
+  if (!index) {
+    index = buildSubsystemIndex(dataset);
+    subsystemIndexes.set(dataset, index);
+  }
+  return ownCopy(findSubsystemDevices(index, subvendor, subdevice), forceUpdate, dataSource);
+}
+
+export async function getSubsystem(
+  vendorId: string,
+  deviceId: string,
+  subvendor: string,
+  subdevice: string,
+  forceUpdate = false,
+  dataSource?: SdkDataSourceOptions,
+): Promise<UsbSubsystemRef | null> {
+  const dataset = await ensureFreshDataset(forceUpdate, dataSource);
+  const subsystem = getSubsystemInData(dataset, vendorId, deviceId, subvendor, subdevice);
+  return ownCopy(subsystem, forceUpdate, dataSource);
 }
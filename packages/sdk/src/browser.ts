@@ -4,23 +4,162 @@
 
 import type { UsbIdsData } from "./types";
 import { ERROR_CODES, UsbApiError } from "./errors";
+import { decodeEd25519PublicKey, SIGNATURE_FILE_SUFFIX, verifyEd25519Signature } from "./signature";
 
 export { ERROR_CODES, UsbApiError } from "./errors";
-export type { DeviceFilter, VendorFilter } from "./pure/query";
+export type { DecodedUsbClass, UsbClassCode, UsbClassLevel, UsbClassMatch } from "./pure/classes";
+export {
+  decodeClassInData,
+  describeInterfaceInData,
+  getClassInData,
+  getSubclassInData,
+} from "./pure/classes";
+export type {
+  DatasetChange,
+  DatasetChangeCounts,
+  DatasetChangeKind,
+  DatasetDiff,
+  DatasetDiffSection,
+} from "./pure/diff";
+export { countDatasetChanges, DATASET_DIFF_SECTIONS, diffDatasets } from "./pure/diff";
+export type { HidCode, HidTableEntry, HidUsageMatch, HidUsagePageSummary } from "./pure/hid";
+export {
+  getHidCountryInData,
+  getHidDescriptorTypeInData,
+  getHidItemTypeInData,
+  getHidUsageInData,
+  getHidUsagePageInData,
+  listHidUsagePagesInData,
+  searchHidUsagesInData,
+} from "./pure/hid";
+export type {
+  DecodedHidReportDescriptor,
+  HidCountry,
+  HidItemKind,
+  HidReportDecodeOptions,
+  HidReportItem,
+} from "./pure/hid-report";
+export { decodeHidReportDescriptorInData } from "./pure/hid-report";
+export type { LangIdCode, LangIdMatch } from "./pure/languages";
+export { findLangIdsInData, listLangIdsInData, resolveLangIdInData } from "./pure/languages";
+export type { UsbIdLookup, UsbIdPair } from "./pure/lookup";
+export { lookupInData, parseUsbIdPair } from "./pure/lookup";
+export type { DecodedLsusbDevice, DecodedLsusbInterface } from "./pure/lsusb";
+export { resolveLsusbInData } from "./pure/lsusb";
+export type { UsbIdsFlatSection, UsbIdsParseEvent } from "./parser/full-usb-ids";
+export type { LsusbDevice, LsusbInterface } from "./parser/lsusb";
+export { parseLsusb } from "./parser/lsusb";
+export { serializeUsbIds } from "./parser/serialize-usb-ids";
+export type { UsbIdsChunkSource, UsbIdsStreamOptions } from "./parser/stream-usb-ids";
+export { parseUsbIdsStream, streamUsbIdsEvents } from "./parser/stream-usb-ids";
+export type { UsbIdsHeader } from "./parser/upstream-header";
+export type {
+  UsbIdsDiagnostic,
+  UsbIdsDiagnosticCode,
+  UsbIdsDiagnosticSeverity,
+  UsbIdsValidationResult,
+} from "./parser/validate-usb-ids";
+export { validateUsbIds } from "./parser/validate-usb-ids";
+export { mergeOverlaysInData } from "./pure/overlay";
+export { decodeEd25519PublicKey, SIGNATURE_FILE_SUFFIX, verifyEd25519Signature } from "./signature";
+export type { DeviceFilter, DeviceOf, VendorFilter } from "./pure/query";
 export { filterDevices, filterVendors, searchInData } from "./pure/query";
+export type { UsbSubsystemIndex, UsbSubsystemRef } from "./pure/subsystems";
+export { buildSubsystemIndex, findSubsystemDevices, getSubsystemInData } from "./pure/subsystems";
+export type {
+  UsbIndex,
+  UsbIndexedDevice,
+  UsbIndexedVendor,
+  UsbIndexPostings,
+} from "./pure/usb-index";
+export { buildUsbIndex, getInIndex, isUsbIndex } from "./pure/usb-index";
 export { isDatasetV2, toV1 } from "./legacy/to-v1";
-export type { UsbDatasetV2, UsbDevice, UsbIdsData, UsbVendor, VersionInfo } from "./types";
+export { toV2 } from "./legacy/to-v2";
+export type {
+  HidUsagePage,
+  UsbClassEntry,
+  UsbClassTriplet,
+  UsbDatasetV2,
+  UsbDevice,
+  UsbDeviceV2,
+  UsbEntryOrigin,
+  UsbIdsData,
+  UsbProtocolEntry,
+  UsbSubclassEntry,
+  UsbVendor,
+  UsbVendorV2,
+  VersionInfo,
+} from "./types";
 
-export async function loadUsbDataFromUrl(url: string): Promise<UsbIdsData> {
+export interface LoadUsbDataFromUrlOptions {
+  /**
+   * Ed25519 public key (PEM, base64 SPKI or base64 raw): `${url}.sig` is fetched and must sign
+   * the response bytes, otherwise `SIGNATURE_INVALID` is thrown before the JSON is parsed
+   */
+  publicKey?: string;
+}
+
+async function fetchOk(url: string, what: string): Promise<Response> {
   const res = await fetch(url);
   if (!res.ok) {
+    throw new UsbApiError(`Failed to fetch ${what}: HTTP ${res.status}`, ERROR_CODES.NETWORK_ERROR);
+  }
+  return res;
+}
+
+/**
+ * Throw `INVALID_PARAMETER` for an unusable key and `SIGNATURE_INVALID` when `${url}.sig` cannot
+ * be fetched, Web Crypto cannot check Ed25519, or the signature does not match.
+ */
+async function assertUrlSignature(
+  url: string,
+  bytes: Uint8Array,
+  publicKey: string,
+): Promise<void> {
+  try {
+    decodeEd25519PublicKey(publicKey);
+  } catch (error) {
+    const cause = error instanceof Error ? error : undefined;
     throw new UsbApiError(
-      `Failed to fetch USB data: HTTP ${res.status}`,
-      ERROR_CODES.NETWORK_ERROR,
+      `Invalid public key: ${cause?.message ?? String(error)}`,
+      ERROR_CODES.INVALID_PARAMETER,
+      cause,
     );
   }
+  const signatureUrl = `${url}${SIGNATURE_FILE_SUFFIX}`;
+  let valid: boolean;
+  try {
+    const res = await fetch(signatureUrl);
+    if (!res.ok) throw new Error(`HTTP ${res.status} for ${signatureUrl}`);
+    valid = await verifyEd25519Signature(bytes, await res.text(), publicKey);
+  } catch (error) {
+    const cause = error instanceof Error ? error : undefined;
+    throw new UsbApiError(
+      `Could not check the signature of ${url}: ${cause?.message ?? String(error)}`,
+      ERROR_CODES.SIGNATURE_INVALID,
+      cause,
+    );
+  }
+  if (!valid) throw new UsbApiError(`Invalid signature for ${url}`, ERROR_CODES.SIGNATURE_INVALID);
+}
+
+/**
+ * Fetch a published JSON file, by default `usb.ids.json` (`T` types others such as
+ * `usb.ids.version.json`); with `publicKey` its signature is checked before parsing.
+ */
+export async function loadUsbDataFromUrl<T = UsbIdsData>(
+  url: string,
+  options: LoadUsbDataFromUrlOptions = {},
+): Promise<T> {
+  const res = await fetchOk(url, "USB data");
+  let text: string | null = null;
+  if (options.publicKey) {
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    await assertUrlSignature(url, bytes, options.publicKey);
+    text = new TextDecoder().decode(bytes);
+  }
   try {
-    return (await res.json()) as UsbIdsData;
+    return (text === null ? await res.json() : JSON.parse(text)) as T;
   } catch (error) {
     const cause = error instanceof Error ? error : undefined;
     throw new UsbApiError(`Invalid JSON from ${url}`, ERROR_CODES.DATA_NOT_FOUND, cause);
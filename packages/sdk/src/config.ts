@@ -6,5 +6,8 @@ export const USB_IDS_SOURCE = [
 export const USB_IDS_FILE = "usb.ids";
 export const USB_IDS_JSON_FILE = "usb.ids.json";
 export const USB_IDS_VERSION_JSON_FILE = "usb.ids.version.json";
+export const USB_IDS_CHANGELOG_JSON_FILE = "usb.ids.changelog.json";
+/** Created while a fetch updates the files above */
+export const USB_IDS_LOCK_FILE = "usb.ids.lock";
 
 export const UI_LOCAL_BASE_URL = "/__usb_ids__/";
@@ -1,8 +1,11 @@
 export {
+  appendChangelogEntry,
   fetchUsbIdsData,
+  loadChangelog,
   loadJsonFile,
   loadVersionInfo,
   saveRawUsbIdsFile,
   saveUsbIdsToFile,
   saveVersionInfo,
 } from "./service/usb-ids-data";
+export type { FetchUsbIdsDataOptions } from "./service/usb-ids-data";
@@ -2,6 +2,9 @@ export const ERROR_CODES = {
   DATA_NOT_FOUND: "DATA_NOT_FOUND",
   NETWORK_ERROR: "NETWORK_ERROR",
   INVALID_PARAMETER: "INVALID_PARAMETER",
+  DOWNGRADE_REFUSED: "DOWNGRADE_REFUSED",
+  INTEGRITY_MISMATCH: "INTEGRITY_MISMATCH",
+  SIGNATURE_INVALID: "SIGNATURE_INVALID",
 } as const;
 
 export class UsbApiError extends Error {
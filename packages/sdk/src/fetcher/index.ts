@@ -1,48 +1,260 @@
 /**
  * Remote download using native fetch (Node 18+): retries, timeout, no cache-busting query params.
+ * `file:` and `data:` URLs are read directly, so local mirrors work without a server.
+ * Mirrors are tried in order, or raced concurrently with the `race` strategy.
  */
+import type { HttpValidators, UsbDatasetV2 } from "../types";
+import { readFile, stat } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { generateContentHash } from "../parser/hash";
+import { parseUsbIdsStream } from "../parser/stream-usb-ids";
+import { parseUsbIdsHeader } from "../parser/upstream-header";
 
 const DEFAULT_TIMEOUT_MS = 45_000;
 const MAX_RETRIES = 3;
 const INITIAL_BACKOFF_MS = 250;
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export interface FetcherLogger {
+  warn: (message: string, error?: unknown) => void;
 }
 
-async function fetchTextOnce(url: string): Promise<string> {
+/**
+ * `sequential` tries URLs in order until one answers; `race` queries all of them at once and
+ * takes the first response with a `# Version:` newer than `currentVersion`.
+ */
+export type FetchStrategy = "sequential" | "race";
+
+/** What one source returned during a download. */
+export interface SourceReport {
+  url: string;
+  /** `cancelled`: the race was decided before this source answered */
+  status: "ok" | "not-modified" | "error" | "cancelled";
+  /** Wall time including retries */
+  latencyMs: number;
+  /** `# Version:` header of the received content */
+  version?: string;
+  /** SHA-256 of the received content */
+  hash?: string;
+  error?: string;
+  /** True for the source whose response was used */
+  selected: boolean;
+}
+
+/** Transport settings for downloads; every field falls back to the built-in default. */
+export interface FetcherOptions {
+  /** Fetch implementation, e.g. one bound to a proxy dispatcher (default: global `fetch`) */
+  fetch?: typeof fetch;
+  /** Extra request headers for HTTP(S) sources, e.g. `Authorization` for an artifact server */
+  headers?: Record<string, string>;
+  /** Per-attempt timeout (default 45000; 0 disables it) */
+  timeoutMs?: number;
+  /** Attempts per URL (default 3) */
+  retries?: number;
+  /** Delay before the second attempt, doubled after each failure (default 250) */
+  backoffMs?: number;
+  /** Receives per-source failures before the next URL is tried (default: `console`) */
+  logger?: FetcherLogger;
+  /** How multiple URLs are queried (default `sequential`) */
+  strategy?: FetchStrategy;
+  /**
+   * Upstream version held locally: sequential downloads move past mirrors serving older content,
+   * and a race only settles early on newer content
+   */
+  currentVersion?: string;
+  /** Called once per queried source, in URL order, when the download settles */
+  onSourceReport?: (report: SourceReport) => void;
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Outcome of a conditional download; `notModified` means the server answered 304. HTTP bodies
+ * are parsed while they arrive, so `dataset` equals `parseUsbIdsFull(content)` when present.
+ */
+export type ConditionalDownload =
+  | { url: string; notModified: true }
+  | {
+      url: string;
+      notModified: false;
+      content: string;
+      validators: HttpValidators;
+      dataset?: UsbDatasetV2;
+    };
+
+/** File mirrors use the modification time as their `Last-Modified` validator. */
+async function readFileUrl(url: string, validators?: HttpValidators): Promise<ConditionalDownload> {
+  const filePath = fileURLToPath(url);
+  const lastModified = (await stat(filePath)).mtime.toUTCString();
+  if (validators?.lastModified === lastModified) return { url, notModified: true };
+  return {
+    url,
+    notModified: false,
+    content: await readFile(filePath, "utf8"),
+    validators: { lastModified },
+  };
+}
+
+function readDataUrl(url: string): ConditionalDownload {
+  const m = url.match(/^data:([^,]*),(.*)$/s);
+  if (!m) throw new Error(`Malformed data URL: ${url.slice(0, 40)}`);
+  const content = /;base64$/i.test(m[1])
+    ? new TextDecoder().decode(Uint8Array.from(atob(m[2]), (c) => c.charCodeAt(0)))
+    : decodeURIComponent(m[2]);
+  return { url, notModified: false, content, validators: {} };
+}
+
+/**
+ * Abort when any of the signals aborts. Uses `AbortSignal.any` where available (Node 20);
+ * otherwise `dispose` removes the listeners this adds to the source signals.
+ */
+function anySignal(signals: AbortSignal[]): { signal?: AbortSignal; dispose: () => void } {
+  if (signals.length <= 1) return { signal: signals[0], dispose: () => {} };
+  if (typeof AbortSignal.any === "function") {
+    return { signal: AbortSignal.any(signals), dispose: () => {} };
+  }
+  const controller = new AbortController();
+  const onAbort = (event: Event) => controller.abort((event.target as AbortSignal).reason);
+  const dispose = () => {
+    for (const signal of signals) signal.removeEventListener("abort", onAbort);
+  };
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+  return { signal: controller.signal, dispose };
+}
+
+/** Decode a response body chunk by chunk, keeping the decoded text in `parts`. */
+async function* decodeBody(
+  body: ReadableStream<Uint8Array>,
+  parts: string[],
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      parts.push(text);
+      yield text;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  const rest = decoder.decode();
+  parts.push(rest);
+  yield rest;
+}
+
+/** Response text and, when the body can be streamed, the dataset parsed while it downloaded. */
+async function readUsbIdsBody(res: Response): Promise<{ content: string; dataset?: UsbDatasetV2 }> {
+  if (!res.body) return { content: await res.text() };
+  const parts: string[] = [];
+  const dataset = await parseUsbIdsStream(decodeBody(res.body, parts));
+  return { content: parts.join(""), dataset };
+}
+
+/** `parse`: also parse the body as `usb.ids` while it downloads (see `ConditionalDownload`). */
+async function fetchTextOnce(
+  url: string,
+  validators: HttpValidators | undefined,
+  options: FetcherOptions,
+  cancel?: AbortSignal,
+  parse = true,
+): Promise<ConditionalDownload> {
+  if (/^file:/i.test(url)) return readFileUrl(url, validators);
+  if (/^data:/i.test(url)) return readDataUrl(url);
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   const timeoutSignal =
-    typeof AbortSignal !== "undefined" && typeof AbortSignal.timeout === "function"
-      ? AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+    timeoutMs > 0 && typeof AbortSignal !== "undefined" && typeof AbortSignal.timeout === "function"
+      ? AbortSignal.timeout(timeoutMs)
       : undefined;
 
-  const res = await fetch(url, {
-    ...(timeoutSignal ? { signal: timeoutSignal } : {}),
+  const { signal, dispose } = anySignal([timeoutSignal, cancel].filter((s) => s !== undefined));
+  try {
+    return await fetchSignalled(url, validators, options, signal, parse);
+  } finally {
+    dispose();
+  }
+}
+
+async function fetchSignalled(
+  url: string,
+  validators: HttpValidators | undefined,
+  options: FetcherOptions,
+  signal: AbortSignal | undefined,
+  parse: boolean,
+): Promise<ConditionalDownload> {
+  const fetchImpl = options.fetch ?? fetch;
+  const res = await fetchImpl(url, {
+    ...(signal ? { signal } : {}),
     headers: {
       Accept: "text/plain,*/*;q=0.8",
       "Accept-Encoding": "gzip, deflate, br",
+      ...options.headers,
+      ...(validators?.etag ? { "If-None-Match": validators.etag } : {}),
+      ...(validators?.lastModified ? { "If-Modified-Since": validators.lastModified } : {}),
     },
   });
 
+  if (res.status === 304 && validators) {
+    return { url, notModified: true };
+  }
   if (!res.ok) {
     throw new Error(`HTTP ${res.status}: ${res.statusText}`);
   }
 
-  return await res.text();
+  const etag = res.headers.get("etag");
+  const lastModified = res.headers.get("last-modified");
+  return {
+    url,
+    notModified: false,
+    ...(parse ? await readUsbIdsBody(res) : { content: await res.text() }),
+    validators: {
+      ...(etag ? { etag } : {}),
+      ...(lastModified ? { lastModified } : {}),
+    },
+  };
 }
 
-/**
- * Download a single URL (no cache-busting).
- */
-export async function downloadFile(url: string): Promise<string> {
+async function withRetries<T>(
+  url: string,
+  options: FetcherOptions,
+  attemptOnce: () => Promise<T>,
+  cancel?: AbortSignal,
+): Promise<T> {
+  const attempts = Math.max(1, options.retries ?? MAX_RETRIES);
+  const backoffMs = options.backoffMs ?? INITIAL_BACKOFF_MS;
   let lastError: Error | null = null;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (cancel?.aborted) break;
     try {
-      return await fetchTextOnce(url);
+      return await attemptOnce();
     } catch (error) {
       lastError = error as Error;
-      if (attempt < MAX_RETRIES - 1) {
-        await sleep(INITIAL_BACKOFF_MS * 2 ** attempt);
+      // A decided race does not wait out the backoff
+      if (cancel?.aborted) break;
+      if (attempt < attempts - 1) {
+        await sleep(backoffMs * 2 ** attempt, cancel);
       }
     }
   }
@@ -50,17 +262,164 @@ export async function downloadFile(url: string): Promise<string> {
 }
 
 /**
- * Try each URL in order; per-URL retries with backoff.
+ * Download a single URL (no cache-busting).
  */
-export async function downloadFromUrls(urls: string[]): Promise<string> {
-  let lastError: Error | null = null;
+export async function downloadFile(url: string, options: FetcherOptions = {}): Promise<string> {
+  const result = await withRetries(url, options, () =>
+    fetchTextOnce(url, undefined, options, undefined, false),
+  );
+  if (result.notModified) throw new Error(`Unexpected 304 from ${url}`);
+  return result.content;
+}
+
+interface SourceAttempt {
+  report: SourceReport;
+  result?: ConditionalDownload;
+  error?: unknown;
+}
+
+async function attemptSource(
+  url: string,
+  validators: HttpValidators | undefined,
+  options: FetcherOptions,
+  cancel?: AbortSignal,
+): Promise<SourceAttempt> {
+  const started = Date.now();
+  try {
+    const result = await withRetries(
+      url,
+      options,
+      () => fetchTextOnce(url, validators, options, cancel),
+      cancel,
+    );
+    const report: SourceReport = {
+      url,
+      status: result.notModified ? "not-modified" : "ok",
+      latencyMs: Date.now() - started,
+      selected: false,
+    };
+    if (!result.notModified) {
+      const { version } = parseUsbIdsHeader(result.content);
+      if (version) report.version = version;
+      report.hash = generateContentHash(result.content);
+    }
+    return { report, result };
+  } catch (error) {
+    if (!cancel?.aborted)
+      (options.logger ?? console).warn(`Failed to download from ${url}:`, error);
+    const report: SourceReport = {
+      url,
+      status: cancel?.aborted ? "cancelled" : "error",
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : String(error),
+      selected: false,
+    };
+    return { report, error };
+  }
+}
+
+/** Versions are `YYYY.MM.DD`, so string order is date order. */
+function isNewerVersion(version: string | undefined, current: string | undefined): boolean {
+  if (!current) return true;
+  return version !== undefined && version > current;
+}
+
+/** Content without a `# Version:` header is not treated as older. */
+function isOlderVersion(version: string | undefined, current: string | undefined): boolean {
+  return version !== undefined && current !== undefined && version < current;
+}
+
+async function raceSources(
+  urls: string[],
+  validators: Record<string, HttpValidators>,
+  options: FetcherOptions,
+): Promise<{ attempts: SourceAttempt[]; winner?: SourceAttempt }> {
+  const controller = new AbortController();
+  let winner: SourceAttempt | undefined;
+  const attempts = await Promise.all(
+    urls.map(async (url) => {
+      const attempt = await attemptSource(url, validators[url], options, controller.signal);
+      const { result, report } = attempt;
+      if (!winner && result && !result.notModified) {
+        if (isNewerVersion(report.version, options.currentVersion)) {
+          winner = attempt;
+          controller.abort();
+        }
+      }
+      return attempt;
+    }),
+  );
+  return { attempts, winner: winner ?? pickFallback(attempts, options.currentVersion) };
+}
+
+/**
+ * When no source had the expected content: the highest version received unless it is older than
+ * the local copy, in which case a 304 (local data is current) is preferred.
+ */
+function pickFallback(
+  attempts: SourceAttempt[],
+  currentVersion: string | undefined,
+): SourceAttempt | undefined {
+  let best: SourceAttempt | undefined;
+  for (const attempt of attempts) {
+    if (attempt.report.status !== "ok") continue;
+    if (!best || (attempt.report.version ?? "") > (best.report.version ?? "")) best = attempt;
+  }
+  const notModified = attempts.find((a) => a.report.status === "not-modified");
+  const bestIsCurrent = best !== undefined && !isOlderVersion(best.report.version, currentVersion);
+  return bestIsCurrent ? best : (notModified ?? best);
+}
+
+async function sequentialSources(
+  urls: string[],
+  validators: Record<string, HttpValidators>,
+  options: FetcherOptions,
+): Promise<{ attempts: SourceAttempt[]; winner?: SourceAttempt }> {
+  const attempts: SourceAttempt[] = [];
   for (const url of urls) {
-    try {
-      return await downloadFile(url);
-    } catch (error) {
-      lastError = error as Error;
-      console.warn(`Failed to download from ${url}:`, error);
+    const attempt = await attemptSource(url, validators[url], options);
+    attempts.push(attempt);
+    // A mirror lagging behind the local copy does not stop the search
+    if (attempt.result && !isOlderVersion(attempt.report.version, options.currentVersion)) {
+      return { attempts, winner: attempt };
     }
   }
-  throw lastError || new Error("All download attempts failed");
+  return { attempts, winner: pickFallback(attempts, options.currentVersion) };
+}
+
+/**
+ * Try each URL in order (or race them, see `FetchStrategy`); per-URL retries with backoff.
+ */
+export async function downloadFromUrls(
+  urls: string[],
+  options: FetcherOptions = {},
+): Promise<string> {
+  const result = await downloadFromUrlsConditional(urls, {}, options);
+  if (result.notModified) throw new Error(`Unexpected 304 from ${result.url}`);
+  return result.content;
+}
+
+/**
+ * Like `downloadFromUrls`, but sends `If-None-Match` / `If-Modified-Since` from the validators
+ * stored for each URL and reports a 304 instead of downloading the body again. With the `race`
+ * strategy a 304 is only used when no source returned content.
+ */
+export async function downloadFromUrlsConditional(
+  urls: string[],
+  validators: Record<string, HttpValidators> = {},
+  options: FetcherOptions = {},
+): Promise<ConditionalDownload> {
+  const { attempts, winner } =
+    options.strategy === "race"
+      ? await raceSources(urls, validators, options)
+      : await sequentialSources(urls, validators, options);
+
+  let lastError: unknown = null;
+  for (const attempt of attempts) {
+    if (attempt === winner) attempt.report.selected = true;
+    if (attempt.report.status === "error") lastError = attempt.error;
+    options.onSourceReport?.(attempt.report);
+  }
+  if (winner?.result) return winner.result;
+  throw lastError instanceof Error ? lastError : new Error("All download attempts failed");
 }
@@ -11,6 +11,7 @@ export * from "./fetcher";
 
 // 导出 legacy 适配
 export { isDatasetV2, toV1 } from "./legacy/to-v1";
+export { toV2 } from "./legacy/to-v2";
 
 // 导出数据解析功能
 export * from "./parser";
@@ -20,8 +20,10 @@ export function toV1(dataset: UsbDatasetV2): UsbIdsData {
       name: v.name,
       devices: {},
     };
+    if (v.origin) vendor.origin = v.origin;
     for (const [did, d] of Object.entries(v.devices)) {
       vendor.devices[did] = { devid: d.devid, devname: d.devname };
+      if (d.origin) vendor.devices[did].origin = d.origin;
     }
     result[vid] = vendor;
   }
@@ -0,0 +1,35 @@
+import type { UsbDatasetV2, UsbDeviceV2, UsbIdsData } from "../types";
+import { isDatasetV2 } from "./to-v1";
+
+/**
+ * Lift a legacy v1 vendor map to a schema v2 shell (classes/HID/etc. stay empty).
+ * Schema v2 input is returned as-is.
+ */
+export function toV2(data: UsbIdsData | UsbDatasetV2): UsbDatasetV2 {
+  if (isDatasetV2(data)) return data;
+  const vendors: UsbDatasetV2["vendors"] = {};
+  for (const [vid, v] of Object.entries(data)) {
+    const devices: Record<string, UsbDeviceV2> = {};
+    for (const [did, d] of Object.entries(v.devices)) {
+      devices[did] = { devid: d.devid, devname: d.devname };
+      if (d.origin) devices[did].origin = d.origin;
+    }
+    vendors[vid] = { vendor: v.vendor, name: v.name, devices };
+    if (v.origin) vendors[vid].origin = v.origin;
+  }
+  return {
+    schemaVersion: 2,
+    vendors,
+    classes: {},
+    audioTerminals: {},
+    hidDescriptors: {},
+    hidItemTypes: {},
+    biasTypes: {},
+    phyTypes: {},
+    hidUsagePages: {},
+    languages: {},
+    hidCountryCodes: {},
+    videoTerminals: {},
+    hcts: {},
+  };
+}
@@ -1,10 +1,24 @@
-import type { UsbIdsData } from "../types";
+import type { FetcherOptions } from "../fetcher";
+import type { UsbDatasetV2, UsbIdsData, VersionInfo } from "../types";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { USB_IDS_JSON_FILE, USB_IDS_SOURCE } from "../config";
-import { fetchUsbIdsData } from "../core";
+import {
+  USB_IDS_FILE,
+  USB_IDS_JSON_FILE,
+  USB_IDS_SOURCE,
+  USB_IDS_VERSION_JSON_FILE,
+} from "../config";
+import { fetchUsbIdsData, loadVersionInfo } from "../core";
+import { ERROR_CODES, UsbApiError } from "../errors";
 import { isDatasetV2, toV1 } from "../legacy/to-v1";
+import { toV2 } from "../legacy/to-v2";
+import { countVendorsAndDevices } from "../parser/version-info";
+import { generateContentHash } from "../parser/hash";
 import { getPackageRoot } from "../paths";
+import { mergeOverlaysInData } from "../pure/overlay";
+import { loadOverlayFile } from "../repository/file-store";
+import { SIGNATURE_FILE_SUFFIX } from "../signature";
+import { assertFileSignature, verifyEd25519SignatureSync } from "./signing";
 
 export interface SdkDataSourceOptions {
   rootDir?: string;
@@ -12,7 +26,37 @@ export interface SdkDataSourceOptions {
   dataDir?: string;
   dataFile?: string;
   fallbackFile?: string;
+  /** `http(s):`, `file:` or `data:` URLs tried in order by `updateUsbData` */
   upstreamUrls?: string[];
+  /** Transport for `upstreamUrls`: custom fetch (e.g. through a proxy), headers, retries, logger */
+  fetcher?: FetcherOptions;
+  /**
+   * Local `usb.ids`-syntax or JSON files merged over the upstream data, in order (relative paths
+   * resolve against the root). Added or renamed entries are tagged `origin: "local"`.
+   */
+  overlayFiles?: string[];
+  /**
+   * Check the data file against `usb.ids.version.json` before serving it (see `verifyUsbData`);
+   * a mismatch throws `INTEGRITY_MISMATCH`.
+   */
+  verify?: boolean;
+  /**
+   * Ed25519 public key (PEM, base64 SPKI or base64 raw) the data file must be signed with: the
+   * loaders check `<dataFile>.sig` before parsing and throw `SIGNATURE_INVALID` otherwise.
+   */
+  publicKey?: string;
+  /**
+   * Keep the parsed dataset in memory between loader calls (default true). The cached copy is
+   * reused until the data file, an overlay file or the manifest's `upstreamHash` changes (with
+   * `verify` or `publicKey` also `usb.ids`, the manifest and their `.sig` files), or
+   * `clearCache()` is called. Callers get a mutable copy of it; pass `false` to skip the cache.
+   */
+  cache?: boolean;
+  /**
+   * Hand out the cached dataset itself, deep-frozen and shared with other callers, instead of a
+   * copy (default false). Saves the copy on every call for read-only callers.
+   */
+  frozen?: boolean;
 }
 
 export interface ResolvedSdkDataSource {
@@ -20,6 +64,9 @@ export interface ResolvedSdkDataSource {
   dataFile: string;
   fallbackFile: string;
   upstreamUrls: string[];
+  fetcher: FetcherOptions;
+  /** Absolute overlay paths */
+  overlayFiles: string[];
 }
 
 /**
@@ -33,10 +80,219 @@ export function resolveSdkDataSource(options: SdkDataSourceOptions = {}): Resolv
     dataFile: options.dataFile ?? USB_IDS_JSON_FILE,
     fallbackFile: options.fallbackFile ?? options.dataFile ?? USB_IDS_JSON_FILE,
     upstreamUrls: options.upstreamUrls ?? USB_IDS_SOURCE,
+    fetcher: options.fetcher ?? {},
+    overlayFiles: (options.overlayFiles ?? []).map((file) => path.resolve(rootDir, file)),
   };
 }
 
-export function loadUsbDataSync(options: SdkDataSourceOptions = {}): UsbIdsData {
+export type UsbDataIntegrityIssueCode =
+  | "manifest-missing"
+  | "data-missing"
+  | "data-invalid"
+  | "hash-mismatch"
+  | "vendor-count-mismatch"
+  | "device-count-mismatch"
+  | "signature-missing"
+  | "signature-invalid";
+
+export interface UsbDataIntegrityIssue {
+  code: UsbDataIntegrityIssueCode;
+  message: string;
+  expected?: string | number;
+  actual?: string | number;
+}
+
+export interface UsbDataIntegrityReport {
+  ok: boolean;
+  manifest: VersionInfo | null;
+  /** File whose SHA-256 was compared with `upstreamHash`, relative to the root */
+  hashedFile: string | null;
+  issues: UsbDataIntegrityIssue[];
+}
+
+/** Signature issues of each existing file against `publicKey`. */
+function checkSignatures(
+  rootDir: string,
+  files: string[],
+  publicKey: string,
+): UsbDataIntegrityIssue[] {
+  const issues: UsbDataIntegrityIssue[] = [];
+  for (const file of files) {
+    const filePath = path.join(rootDir, file);
+    if (!fs.existsSync(filePath)) continue;
+    const signaturePath = `${filePath}${SIGNATURE_FILE_SUFFIX}`;
+    if (!fs.existsSync(signaturePath)) {
+      issues.push({
+        code: "signature-missing",
+        message: `Missing signature ${file}${SIGNATURE_FILE_SUFFIX}`,
+      });
+      continue;
+    }
+    const signature = fs.readFileSync(signaturePath, "utf8");
+    if (!verifyEd25519SignatureSync(fs.readFileSync(filePath), signature, publicKey)) {
+      issues.push({
+        code: "signature-invalid",
+        message: `${file}${SIGNATURE_FILE_SUFFIX} is not a valid signature of ${file}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Recompute the SHA-256 of the raw `usb.ids` and the vendor/device counts of the data file and
+ * compare them with `usb.ids.version.json`. Manifests written from a JSON fallback hash the JSON
+ * text instead, so a match on the data file is accepted as well. Overlays are not applied.
+ * With `publicKey`, the detached signatures of the data file, the manifest and `usb.ids` are
+ * checked too.
+ */
+export function verifyUsbData(options: SdkDataSourceOptions = {}): UsbDataIntegrityReport {
+  const source = resolveSdkDataSource(options);
+  const manifest = loadVersionInfo(path.join(source.rootDir, USB_IDS_VERSION_JSON_FILE));
+  const dataPath = path.join(source.rootDir, source.dataFile);
+  const issues: UsbDataIntegrityIssue[] = [];
+  const report = (issue: UsbDataIntegrityIssue) => {
+    issues.push(issue);
+    return { ok: false, manifest, hashedFile: null, issues };
+  };
+  if (!manifest) {
+    return report({
+      code: "manifest-missing",
+      message: `Missing or invalid ${USB_IDS_VERSION_JSON_FILE} under ${source.rootDir}`,
+    });
+  }
+  if (!fs.existsSync(dataPath)) {
+    return report({
+      code: "data-missing",
+      message: `Missing ${source.dataFile} under ${source.rootDir}`,
+    });
+  }
+
+  const dataText = fs.readFileSync(dataPath, "utf8");
+  const hashCandidates = fs.existsSync(path.join(source.rootDir, USB_IDS_FILE))
+    ? [USB_IDS_FILE, source.dataFile]
+    : [source.dataFile];
+  let hashedFile = hashCandidates[0];
+  let hash = "";
+  for (const file of hashCandidates) {
+    const fileHash = generateContentHash(
+      file === source.dataFile
+        ? dataText
+        : fs.readFileSync(path.join(source.rootDir, file), "utf8"),
+    );
+    if (!hash) hash = fileHash;
+    if (fileHash === manifest.upstreamHash) {
+      hashedFile = file;
+      hash = fileHash;
+      break;
+    }
+  }
+  if (hash !== manifest.upstreamHash) {
+    issues.push({
+      code: "hash-mismatch",
+      message: `SHA-256 of ${hashedFile} does not match upstreamHash in ${USB_IDS_VERSION_JSON_FILE}`,
+      expected: manifest.upstreamHash,
+      actual: hash,
+    });
+  }
+
+  if (options.publicKey) {
+    const signedFiles = [source.dataFile, USB_IDS_VERSION_JSON_FILE, USB_IDS_FILE];
+    issues.push(...checkSignatures(source.rootDir, signedFiles, options.publicKey));
+  }
+
+  let parsed: UsbDatasetV2 | UsbIdsData;
+  try {
+    parsed = JSON.parse(dataText) as UsbDatasetV2 | UsbIdsData;
+  } catch (error) {
+    issues.push({
+      code: "data-invalid",
+      message: `${source.dataFile} is not valid JSON: ${(error as Error).message}`,
+    });
+    return { ok: false, manifest, hashedFile, issues };
+  }
+  const counts = countVendorsAndDevices(parsed);
+  if (counts.vendorCount !== manifest.vendorCount) {
+    issues.push({
+      code: "vendor-count-mismatch",
+      message: `${source.dataFile} has ${counts.vendorCount} vendors; the manifest records ${manifest.vendorCount}`,
+      expected: manifest.vendorCount,
+      actual: counts.vendorCount,
+    });
+  }
+  if (counts.deviceCount !== manifest.deviceCount) {
+    issues.push({
+      code: "device-count-mismatch",
+      message: `${source.dataFile} has ${counts.deviceCount} devices; the manifest records ${manifest.deviceCount}`,
+      expected: manifest.deviceCount,
+      actual: counts.deviceCount,
+    });
+  }
+  return { ok: issues.length === 0, manifest, hashedFile, issues };
+}
+
+interface CachedDataset {
+  /** Data/overlay file identities and the manifest hash the entry was read under */
+  stamp: string;
+  /** Shared between callers, so every view is frozen and copied unless `frozen` is set */
+  shared: boolean;
+  raw: UsbDatasetV2 | UsbIdsData;
+  v1?: UsbIdsData;
+  v2?: UsbDatasetV2;
+}
+
+/** Parsed datasets keyed by resolved data source and load checks. */
+const datasetCache = new Map<string, CachedDataset>();
+
+/** Drop every cached dataset; the next loader call reads the files again. */
+export function clearCache(): void {
+  datasetCache.clear();
+}
+
+function fileStamp(filePath: string): string {
+  const stat = fs.statSync(filePath, { throwIfNoEntry: false });
+  return stat ? `${stat.ino}:${stat.size}:${stat.mtimeMs}` : "-";
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === "object" && value !== null && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
+
+function cachedDataset(options: SdkDataSourceOptions): CachedDataset {
+  if (options.cache === false) return { stamp: "", shared: false, raw: readDataFile(options) };
+  const source = resolveSdkDataSource(options);
+  const key = JSON.stringify([
+    source.rootDir,
+    source.dataFile,
+    source.overlayFiles,
+    options.publicKey ?? null,
+    Boolean(options.verify),
+  ]);
+  const manifestPath = path.join(source.rootDir, USB_IDS_VERSION_JSON_FILE);
+  const manifest = loadVersionInfo(manifestPath);
+  const dataPath = path.join(source.rootDir, source.dataFile);
+  const files = [dataPath, ...source.overlayFiles];
+  if (options.verify || options.publicKey) {
+    // The checks also read these, so a changed file must re-run them
+    const usbIdsPath = path.join(source.rootDir, USB_IDS_FILE);
+    const signatures = [dataPath, manifestPath, usbIdsPath].map(
+      (p) => `${p}${SIGNATURE_FILE_SUFFIX}`,
+    );
+    files.push(manifestPath, usbIdsPath, ...signatures);
+  }
+  const stamp = [...files.map(fileStamp), manifest?.upstreamHash ?? "-"].join("|");
+  const cached = datasetCache.get(key);
+  if (cached?.stamp === stamp) return cached;
+  const entry: CachedDataset = { stamp, shared: true, raw: deepFreeze(readDataFile(options)) };
+  datasetCache.set(key, entry);
+  return entry;
+}
+
+function readDataFile(options: SdkDataSourceOptions): UsbDatasetV2 | UsbIdsData {
   const source = resolveSdkDataSource(options);
   const p = path.join(source.rootDir, source.dataFile);
   if (!fs.existsSync(p)) {
@@ -44,23 +300,71 @@ export function loadUsbDataSync(options: SdkDataSourceOptions = {}): UsbIdsData
       `Missing ${source.dataFile} under configured root (${source.rootDir}). Run \`usb-ids fetch\` or provide a valid SDK data source.`,
     );
   }
-  const raw = JSON.parse(fs.readFileSync(p, "utf8"));
-  if (isDatasetV2(raw)) return toV1(raw);
-  return raw as UsbIdsData;
+  const bytes = fs.readFileSync(p);
+  if (options.publicKey) assertFileSignature(p, bytes, options.publicKey);
+  if (options.verify) {
+    const { ok, issues } = verifyUsbData(options);
+    if (!ok) {
+      throw new UsbApiError(
+        `Integrity check failed for ${source.dataFile}: ${issues.map((i) => i.message).join("; ")}`,
+        ERROR_CODES.INTEGRITY_MISMATCH,
+      );
+    }
+  }
+  const data = JSON.parse(bytes.toString("utf8")) as UsbDatasetV2 | UsbIdsData;
+  if (source.overlayFiles.length === 0) return data;
+  return mergeOverlaysInData(toV2(data), source.overlayFiles.map(loadOverlayFile));
+}
+
+/** A shared view as the caller asked for it: frozen with `frozen`, otherwise a private copy. */
+function handOut<T>(entry: CachedDataset, view: T, options: SdkDataSourceOptions): T {
+  return entry.shared && !options.frozen ? structuredClone(view) : view;
+}
+
+export function loadUsbDataSync(options: SdkDataSourceOptions = {}): UsbIdsData {
+  const entry = cachedDataset(options);
+  if (!entry.v1) {
+    const v1 = isDatasetV2(entry.raw) ? toV1(entry.raw) : entry.raw;
+    entry.v1 = entry.shared ? deepFreeze(v1) : v1;
+  }
+  return handOut(entry, entry.v1, options);
 }
 
 export async function loadUsbData(options: SdkDataSourceOptions = {}): Promise<UsbIdsData> {
   return loadUsbDataSync(options);
 }
 
+/**
+ * Load the full schema v2 dataset (classes, HID, languages…); legacy v1 files are lifted via `toV2`.
+ */
+export function loadUsbDatasetSync(options: SdkDataSourceOptions = {}): UsbDatasetV2 {
+  const entry = cachedDataset(options);
+  if (!entry.v2) {
+    const v2 = toV2(entry.raw);
+    entry.v2 = entry.shared ? deepFreeze(v2) : v2;
+  }
+  return handOut(entry, entry.v2, options);
+}
+
+export async function loadUsbDataset(options: SdkDataSourceOptions = {}): Promise<UsbDatasetV2> {
+  return loadUsbDatasetSync(options);
+}
+
+/**
+ * Download and store fresh data. Writes `usb.ids`, the parsed JSON to `dataFile` (what the
+ * loaders read), `usb.ids.version.json` and, on an upstream change, `usb.ids.changelog.json`
+ * under the root; `fallbackFile` is only read when every source fails. Older upstream content
+ * than the stored manifest is refused (`DOWNGRADE_REFUSED`) unless `allowDowngrade` is set.
+ */
 export async function updateUsbData(
-  options: SdkDataSourceOptions & { force?: boolean } = {},
+  options: SdkDataSourceOptions & { force?: boolean; allowDowngrade?: boolean } = {},
 ): Promise<Awaited<ReturnType<typeof fetchUsbIdsData>>> {
   const source = resolveSdkDataSource(options);
-  return fetchUsbIdsData(
-    source.upstreamUrls,
-    source.fallbackFile,
-    source.rootDir,
-    options.force ?? false,
-  );
+  return fetchUsbIdsData(source.upstreamUrls, source.fallbackFile, source.rootDir, {
+    forceUpdate: options.force,
+    overlayFiles: source.overlayFiles,
+    fetcher: source.fetcher,
+    allowDowngrade: options.allowDowngrade,
+    dataFile: source.dataFile,
+  });
 }
@@ -0,0 +1,54 @@
+/**
+ * Node-side Ed25519 signing and synchronous verification for detached `.sig` files
+ * (see `../signature` for the format and the browser-safe verifier).
+ */
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import { ERROR_CODES, UsbApiError } from "../errors";
+import { decodeEd25519PublicKey, SIGNATURE_FILE_SUFFIX } from "../signature";
+
+/** Base64 Ed25519 signature of `content`; `privateKey` is a PKCS#8 PEM. */
+export function signEd25519(content: Uint8Array | string, privateKey: string): string {
+  const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+  return crypto.sign(null, data, crypto.createPrivateKey(privateKey)).toString("base64");
+}
+
+/** Write `<filePath>.sig` next to the file and return its path. */
+export function signFile(filePath: string, privateKey: string): string {
+  const signaturePath = `${filePath}${SIGNATURE_FILE_SUFFIX}`;
+  fs.writeFileSync(signaturePath, `${signEd25519(fs.readFileSync(filePath), privateKey)}\n`);
+  return signaturePath;
+}
+
+export function verifyEd25519SignatureSync(
+  content: Uint8Array | string,
+  signature: string,
+  publicKey: string,
+): boolean {
+  const key = crypto.createPublicKey({
+    key: Buffer.from(decodeEd25519PublicKey(publicKey)),
+    format: "der",
+    type: "spki",
+  });
+  const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+  return crypto.verify(null, data, key, Buffer.from(signature.trim(), "base64"));
+}
+
+/**
+ * Check `<filePath>.sig` against the file's bytes; throws `SIGNATURE_INVALID` when the
+ * signature is missing or does not match.
+ */
+export function assertFileSignature(
+  filePath: string,
+  content: Uint8Array,
+  publicKey: string,
+): void {
+  const signaturePath = `${filePath}${SIGNATURE_FILE_SUFFIX}`;
+  if (!fs.existsSync(signaturePath)) {
+    throw new UsbApiError(`Missing signature ${signaturePath}`, ERROR_CODES.SIGNATURE_INVALID);
+  }
+  const signature = fs.readFileSync(signaturePath, "utf8");
+  if (!verifyEd25519SignatureSync(content, signature, publicKey)) {
+    throw new UsbApiError(`Invalid signature for ${filePath}`, ERROR_CODES.SIGNATURE_INVALID);
+  }
+}
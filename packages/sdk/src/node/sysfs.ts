@@ -0,0 +1,150 @@
+/**
+ * Linux sysfs USB scan: walks `/sys/bus/usb/devices` (or an injected fixture root) and reads the
+ * descriptor attributes the kernel exposes for each attached device and interface.
+ */
+
+import type { UsbClassTriplet, UsbDatasetV2 } from "../types";
+import type { DecodedUsbClass } from "../pure/classes";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { resolveUsbDeviceInData } from "../pure/resolve-device";
+
+export const DEFAULT_SYSFS_USB_ROOT = "/sys/bus/usb/devices";
+
+/** Interface directories are named `<device>:<config>.<interface>`, e.g. `1-1.2:1.0`. */
+const INTERFACE_DIR = /^[\d.-]+:\d+\.\d+$/;
+
+export interface SysfsScanOptions {
+  /** Directory holding one entry per USB device (default `/sys/bus/usb/devices`). */
+  sysfsRoot?: string;
+}
+
+export interface SysfsUsbInterface extends UsbClassTriplet {
+  /** sysfs entry name, e.g. `1-1:1.0` */
+  name: string;
+  /** `bInterfaceNumber` */
+  number: number | null;
+}
+
+export interface SysfsUsbDevice {
+  /** sysfs entry name, e.g. `1-1` or `usb1` */
+  name: string;
+  path: string;
+  vendorId: string;
+  productId: string;
+  busnum: number | null;
+  devnum: number | null;
+  deviceClass: UsbClassTriplet | null;
+  /** Device-reported `manufacturer` string descriptor */
+  manufacturer: string | null;
+  /** Device-reported `product` string descriptor */
+  product: string | null;
+  interfaces: SysfsUsbInterface[];
+}
+
+export interface AnnotatedSysfsInterface extends DecodedUsbClass {
+  name: string;
+  number: number | null;
+}
+
+export interface AnnotatedSysfsDevice extends Omit<SysfsUsbDevice, "deviceClass" | "interfaces"> {
+  /** Vendor name from `usb.ids` */
+  vendorName: string | null;
+  /** Device name from `usb.ids` */
+  deviceName: string | null;
+  /** True when the vendor or product ID is not listed in `usb.ids` */
+  unknown: boolean;
+  deviceClass: DecodedUsbClass | null;
+  interfaces: AnnotatedSysfsInterface[];
+}
+
+function readAttr(dir: string, name: string): string | null {
+  try {
+    const value = fs.readFileSync(path.join(dir, name), "utf8").trim();
+    return value === "" ? null : value;
+  } catch {
+    return null;
+  }
+}
+
+function readHexCode(dir: string, name: string, width: number): string | null {
+  const value = readAttr(dir, name);
+  if (!value || !/^[0-9a-f]+$/i.test(value)) return null;
+  return value.toLowerCase().padStart(width, "0");
+}
+
+function readInt(dir: string, name: string, radix: number): number | null {
+  const value = readAttr(dir, name);
+  if (!value) return null;
+  const n = Number.parseInt(value, radix);
+  return Number.isNaN(n) ? null : n;
+}
+
+function readTriplet(dir: string, prefix: "bDevice" | "bInterface"): UsbClassTriplet | null {
+  const classCode = readHexCode(dir, `${prefix}Class`, 2);
+  if (!classCode) return null;
+  return {
+    classCode,
+    subclassCode: readHexCode(dir, `${prefix}SubClass`, 2) ?? "00",
+    protocolCode: readHexCode(dir, `${prefix}Protocol`, 2) ?? "00",
+  };
+}
+
+function readInterfaces(deviceDir: string): SysfsUsbInterface[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(deviceDir);
+  } catch {
+    return [];
+  }
+  const interfaces: SysfsUsbInterface[] = [];
+  for (const name of entries.filter((e) => INTERFACE_DIR.test(e)).sort()) {
+    const dir = path.join(deviceDir, name);
+    const triplet = readTriplet(dir, "bInterface");
+    if (!triplet) continue;
+    interfaces.push({ name, number: readInt(dir, "bInterfaceNumber", 16), ...triplet });
+  }
+  return interfaces;
+}
+
+/**
+ * List USB devices (entries exposing `idVendor`/`idProduct`) under the sysfs root.
+ */
+export function scanSysfsUsbDevices(options: SysfsScanOptions = {}): SysfsUsbDevice[] {
+  const root = options.sysfsRoot ?? DEFAULT_SYSFS_USB_ROOT;
+  if (!fs.existsSync(root)) {
+    throw new Error(`sysfs USB tree not found at ${root}`);
+  }
+
+  const devices: SysfsUsbDevice[] = [];
+  for (const name of fs.readdirSync(root).sort()) {
+    if (INTERFACE_DIR.test(name)) continue;
+    const dir = path.join(root, name);
+    const vendorId = readHexCode(dir, "idVendor", 4);
+    const productId = readHexCode(dir, "idProduct", 4);
+    if (!vendorId || !productId) continue;
+    devices.push({
+      name,
+      path: dir,
+      vendorId,
+      productId,
+      busnum: readInt(dir, "busnum", 10),
+      devnum: readInt(dir, "devnum", 10),
+      deviceClass: readTriplet(dir, "bDevice"),
+      manufacturer: readAttr(dir, "manufacturer"),
+      product: readAttr(dir, "product"),
+      interfaces: readInterfaces(dir),
+    });
+  }
+  return devices;
+}
+
+/**
+ * Resolve scanned devices against a schema v2 dataset, keeping device-reported strings alongside.
+ */
+export function annotateSysfsDevices(
+  dataset: UsbDatasetV2,
+  devices: SysfsUsbDevice[],
+): AnnotatedSysfsDevice[] {
+  return devices.map((entry) => ({ ...entry, ...resolveUsbDeviceInData(dataset, entry) }));
+}
@@ -26,54 +26,75 @@ function leadingTabs(s: string): number {
   return n;
 }
 
+/** Top-level header of each section after the vendor list, in file order. */
+const SECTION_HEADERS: Array<[ParseMode, RegExp]> = [
+  ["classes", /^C [0-9a-f]{2}\s/i],
+  ["audio-terminals", /^AT /i],
+  ["hid-descriptors", /^HID /i],
+  ["hid-items", /^R /i],
+  ["bias", /^BIAS /i],
+  ["phy", /^PHY /i],
+  ["hut", /^HUT /i],
+  ["languages", /^L [0-9a-f]{4}\s/i],
+  ["hid-country", /^HCC /i],
+  ["video-terminals", /^(?:VT|HCT) /i],
+];
+
+/**
+ * Sections only move forward, but empty sections may be absent (e.g. a serialized dataset
+ * without audio terminals), so any later header switches modes.
+ */
 function advanceMajorSection(line: string, mode: ParseMode): ParseMode {
   const t = line.trimStart();
   if (t.startsWith("#") || t === "") return mode;
 
-  switch (mode) {
-    case "vendors":
-      if (/^C [0-9a-f]{2}\s/i.test(line)) return "classes";
-      return mode;
-    case "classes":
-      if (/^AT /i.test(line)) return "audio-terminals";
-      return mode;
-    case "audio-terminals":
-      if (/^HID /i.test(line)) return "hid-descriptors";
-      return mode;
-    case "hid-descriptors":
-      if (/^R /i.test(line)) return "hid-items";
-      return mode;
-    case "hid-items":
-      if (/^BIAS /i.test(line)) return "bias";
-      return mode;
-    case "bias":
-      if (/^PHY /i.test(line)) return "phy";
-      return mode;
-    case "phy":
-      if (/^HUT /i.test(line)) return "hut";
-      return mode;
-    case "hut":
-      if (/^L [0-9a-f]{4}\s/i.test(line)) return "languages";
-      return mode;
-    case "languages":
-      if (/^HCC /i.test(line)) return "hid-country";
-      return mode;
-    case "hid-country":
-      if (/^VT /i.test(line)) return "video-terminals";
-      return mode;
-    default:
-      return mode;
+  const current = SECTION_HEADERS.findIndex(([m]) => m === mode);
+  for (const [next, header] of SECTION_HEADERS.slice(current + 1)) {
+    if (header.test(line)) return next;
   }
+  return mode;
 }
 
-/**
- * Full usb.ids parse: vendors/devices/subsystems, USB classes, HID pages, languages, etc.
- */
-export function parseUsbIdsFull(content: string): UsbDatasetV2 {
-  const normalized = content.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  const lines = normalized.split("\n");
+/** Sections that map plain `id → name` records of `UsbDatasetV2`. */
+export type UsbIdsFlatSection =
+  | "audioTerminals"
+  | "hidDescriptors"
+  | "hidItemTypes"
+  | "biasTypes"
+  | "phyTypes"
+  | "hidCountryCodes"
+  | "videoTerminals"
+  | "hcts";
+
+/** One parsed `usb.ids` entry. IDs are lower-case hex; `line` is 1-based. */
+export type UsbIdsParseEvent = { line: number; name: string } & (
+  | { type: "vendor"; vendor: string }
+  | { type: "device"; vendor: string; device: string }
+  | { type: "subsystem"; vendor: string; device: string; subvendor: string; subdevice: string }
+  | { type: "class"; classCode: string }
+  | { type: "subclass"; classCode: string; subclassCode: string }
+  | { type: "protocol"; classCode: string; subclassCode: string; protocolCode: string }
+  | { type: "hid-usage-page"; page: string }
+  | { type: "hid-usage"; page: string; usage: string }
+  | { type: "language"; language: string }
+  | { type: "dialect"; language: string; dialect: string }
+  | { type: "entry"; section: UsbIdsFlatSection; id: string }
+);
 
-  const dataset: UsbDatasetV2 = {
+/** Line parser returned by `createUsbIdsLineParser`. */
+export type UsbIdsLineParser = (line: string, lineNumber: number) => UsbIdsParseEvent | null;
+
+const FLAT_SECTIONS: Partial<Record<ParseMode, [UsbIdsFlatSection, RegExp]>> = {
+  "audio-terminals": ["audioTerminals", /^AT ([0-9a-f]{4})\s+(.+)$/i],
+  "hid-descriptors": ["hidDescriptors", /^HID ([0-9a-f]{2})\s+(.+)$/i],
+  "hid-items": ["hidItemTypes", /^R ([0-9a-f]{2})\s+(.+)$/i],
+  bias: ["biasTypes", /^BIAS ([0-9a-f]+)\s+(.+)$/i],
+  phy: ["phyTypes", /^PHY ([0-9a-f]{2})\s+(.+)$/i],
+  "hid-country": ["hidCountryCodes", /^HCC ([0-9a-f]{2})\s+(.+)$/i],
+};
+
+export function createEmptyDatasetV2(): UsbDatasetV2 {
+  return {
     schemaVersion: 2,
     vendors: {},
     classes: {},
@@ -88,7 +109,13 @@ export function parseUsbIdsFull(content: string): UsbDatasetV2 {
     videoTerminals: {},
     hcts: {},
   };
+}
 
+/**
+ * Stateful parser for one `usb.ids` line at a time (lines must arrive in file order, without line
+ * terminators). Comments, blank and unparseable lines yield null.
+ */
+export function createUsbIdsLineParser(): UsbIdsLineParser {
   let mode: ParseMode = "vendors";
   let currentVendor: string | null = null;
   let currentDevice: string | null = null;
@@ -100,202 +127,233 @@ export function parseUsbIdsFull(content: string): UsbDatasetV2 {
 
   let currentLangCode: string | null = null;
 
-  for (const rawLine of lines) {
-    const line = rawLine.replace(/\r$/, "");
-    if (line.trim() === "" || line.trimStart().startsWith("#")) continue;
+  return (rawLine, line) => {
+    const text = rawLine.replace(/\r$/, "");
+    if (text.trim() === "" || text.trimStart().startsWith("#")) return null;
 
-    mode = advanceMajorSection(line, mode);
+    mode = advanceMajorSection(text, mode);
 
-    const tabs = leadingTabs(line);
+    const tabs = leadingTabs(text);
 
     switch (mode) {
       case "vendors": {
         if (tabs === 0) {
-          const m = line.match(/^([0-9a-f]{4})\s+(.+)$/i);
+          const m = text.match(/^([0-9a-f]{4})\s+(.+)$/i);
           if (m) {
-            const [, vid, name] = m;
-            currentVendor = vid.toLowerCase();
+            currentVendor = m[1].toLowerCase();
             currentDevice = null;
-            const v: UsbVendorV2 = {
-              vendor: currentVendor,
-              name: name.trim(),
-              devices: {},
-            };
-            dataset.vendors[currentVendor] = v;
+            return { type: "vendor", line, vendor: currentVendor, name: m[2].trim() };
           }
         } else if (tabs === 1 && currentVendor) {
-          const m = line.match(/^\t([0-9a-f]{4})\s+(.+)$/i);
+          const m = text.match(/^\t([0-9a-f]{4})\s+(.+)$/i);
           if (m) {
-            const [, did, dname] = m;
-            const id = did.toLowerCase();
-            currentDevice = id;
-            const dev: UsbDeviceV2 = { devid: id, devname: dname.trim() };
-            dataset.vendors[currentVendor].devices[id] = dev;
+            currentDevice = m[1].toLowerCase();
+            return {
+              type: "device",
+              line,
+              vendor: currentVendor,
+              device: currentDevice,
+              name: m[2].trim(),
+            };
           }
         } else if (tabs === 2 && currentVendor && currentDevice) {
-          const m = line.match(/^\t\t([0-9a-f]{4})\s+([0-9a-f]{4})\s+(.+)$/i);
+          const m = text.match(/^\t\t([0-9a-f]{4})\s+([0-9a-f]{4})\s+(.+)$/i);
           if (m) {
-            const [, sv, sd, sname] = m;
-            const dev = dataset.vendors[currentVendor].devices[currentDevice];
-            if (dev) {
-              if (!dev.subsystems) dev.subsystems = [];
-              dev.subsystems.push({
-                subvendor: sv.toLowerCase(),
-                subdevice: sd.toLowerCase(),
-                name: sname.trim(),
-              });
-            }
+            return {
+              type: "subsystem",
+              line,
+              vendor: currentVendor,
+              device: currentDevice,
+              subvendor: m[1].toLowerCase(),
+              subdevice: m[2].toLowerCase(),
+              name: m[3].trim(),
+            };
           }
         }
-        break;
+        return null;
       }
       case "classes": {
         if (tabs === 0) {
-          const m = line.match(/^C ([0-9a-f]{2})\s+(.+)$/i);
+          const m = text.match(/^C ([0-9a-f]{2})\s+(.+)$/i);
           if (m) {
-            const [, cc, cname] = m;
-            currentClassCode = cc.toLowerCase();
+            currentClassCode = m[1].toLowerCase();
             currentSubclassCode = null;
-            const centry: UsbClassEntry = {
-              code: currentClassCode,
-              name: cname.trim(),
-              subclasses: {},
-            };
-            dataset.classes[currentClassCode] = centry;
+            return { type: "class", line, classCode: currentClassCode, name: m[2].trim() };
           }
         } else if (tabs === 1 && currentClassCode) {
-          const m = line.match(/^\t([0-9a-f]{2})\s+(.+)$/i);
+          const m = text.match(/^\t([0-9a-f]{2})\s+(.+)$/i);
           if (m) {
-            const [, sc, sname] = m;
-            currentSubclassCode = sc.toLowerCase();
-            const scEntry: UsbSubclassEntry = {
-              code: currentSubclassCode,
-              name: sname.trim(),
-              protocols: {},
+            currentSubclassCode = m[1].toLowerCase();
+            return {
+              type: "subclass",
+              line,
+              classCode: currentClassCode,
+              subclassCode: currentSubclassCode,
+              name: m[2].trim(),
             };
-            dataset.classes[currentClassCode].subclasses[currentSubclassCode] = scEntry;
           }
         } else if (tabs === 2 && currentClassCode && currentSubclassCode) {
-          const m = line.match(/^\t\t([0-9a-f]{2})\s+(.+)$/i);
+          const m = text.match(/^\t\t([0-9a-f]{2})\s+(.+)$/i);
           if (m) {
-            const [, pc, pname] = m;
-            const prot = pc.toLowerCase();
-            dataset.classes[currentClassCode].subclasses[currentSubclassCode].protocols[prot] = {
-              code: prot,
-              name: pname.trim(),
+            return {
+              type: "protocol",
+              line,
+              classCode: currentClassCode,
+              subclassCode: currentSubclassCode,
+              protocolCode: m[1].toLowerCase(),
+              name: m[2].trim(),
             };
           }
         }
-        break;
-      }
-      case "audio-terminals": {
-        const m = line.match(/^AT ([0-9a-f]{4})\s+(.+)$/i);
-        if (m) {
-          const [, id, name] = m;
-          dataset.audioTerminals[id.toLowerCase()] = name.trim();
-        }
-        break;
-      }
-      case "hid-descriptors": {
-        const m = line.match(/^HID ([0-9a-f]{2})\s+(.+)$/i);
-        if (m) {
-          const [, id, name] = m;
-          dataset.hidDescriptors[id.toLowerCase()] = name.trim();
-        }
-        break;
-      }
-      case "hid-items": {
-        const m = line.match(/^R ([0-9a-f]{2})\s+(.+)$/i);
-        if (m) {
-          const [, id, name] = m;
-          dataset.hidItemTypes[id.toLowerCase()] = name.trim();
-        }
-        break;
-      }
-      case "bias": {
-        const m = line.match(/^BIAS ([0-9a-f]+)\s+(.+)$/i);
-        if (m) {
-          const [, id, name] = m;
-          dataset.biasTypes[id] = name.trim();
-        }
-        break;
-      }
-      case "phy": {
-        const m = line.match(/^PHY ([0-9a-f]{2})\s+(.+)$/i);
-        if (m) {
-          const [, id, name] = m;
-          dataset.phyTypes[id.toLowerCase()] = name.trim();
-        }
-        break;
+        return null;
       }
       case "hut": {
         if (tabs === 0) {
-          const m = line.match(/^HUT ([0-9a-f]{2})\s+(.+)$/i);
+          const m = text.match(/^HUT ([0-9a-f]{2})\s+(.+)$/i);
           if (m) {
-            const [, pid, pname] = m;
-            currentHutPage = pid.toLowerCase();
-            dataset.hidUsagePages[currentHutPage] = {
-              pageCode: currentHutPage,
-              name: pname.trim(),
-              usages: {},
-            };
+            currentHutPage = m[1].toLowerCase();
+            return { type: "hid-usage-page", line, page: currentHutPage, name: m[2].trim() };
           }
         } else if (tabs === 1 && currentHutPage) {
-          const m = line.match(/^\t([0-9a-f]{1,4})\s+(.+)$/i);
+          const m = text.match(/^\t([0-9a-f]{1,4})\s+(.+)$/i);
           if (m) {
-            const [, uid, uname] = m;
-            dataset.hidUsagePages[currentHutPage].usages[uid.toLowerCase()] = uname.trim();
+            return {
+              type: "hid-usage",
+              line,
+              page: currentHutPage,
+              usage: m[1].toLowerCase(),
+              name: m[2].trim(),
+            };
           }
         }
-        break;
+        return null;
       }
       case "languages": {
         if (tabs === 0) {
-          const m = line.match(/^L ([0-9a-f]{4})\s+(.+)$/i);
+          const m = text.match(/^L ([0-9a-f]{4})\s+(.+)$/i);
           if (m) {
-            const [, lid, lname] = m;
-            currentLangCode = lid.toLowerCase();
-            dataset.languages[currentLangCode] = { name: lname.trim() };
+            currentLangCode = m[1].toLowerCase();
+            return { type: "language", line, language: currentLangCode, name: m[2].trim() };
           }
         } else if (tabs === 1 && currentLangCode) {
-          const m = line.match(/^\t([0-9a-f]{2})\s+(.+)$/i);
+          const m = text.match(/^\t([0-9a-f]{2})\s+(.+)$/i);
           if (m) {
-            const [, did, dname] = m;
-            const lang = dataset.languages[currentLangCode];
-            if (lang) {
-              if (!lang.dialects) lang.dialects = {};
-              lang.dialects[did.toLowerCase()] = dname.trim();
-            }
+            return {
+              type: "dialect",
+              line,
+              language: currentLangCode,
+              dialect: m[1].toLowerCase(),
+              name: m[2].trim(),
+            };
           }
         }
-        break;
-      }
-      case "hid-country": {
-        const m = line.match(/^HCC ([0-9a-f]{2})\s+(.+)$/i);
-        if (m) {
-          const [, id, name] = m;
-          dataset.hidCountryCodes[id.toLowerCase()] = name.trim();
-        }
-        break;
+        return null;
       }
       case "video-terminals": {
-        if (/^HCT /i.test(line)) {
-          const m = line.match(/^HCT ([0-9a-f]{2})\s+(.+)$/i);
-          if (m) {
-            const [, id, name] = m;
-            dataset.hcts[id.toLowerCase()] = name.trim();
-          }
-        } else {
-          const m = line.match(/^VT ([0-9a-f]{4})\s+(.+)$/i);
-          if (m) {
-            const [, id, name] = m;
-            dataset.videoTerminals[id.toLowerCase()] = name.trim();
-          }
-        }
-        break;
+        const m = /^HCT /i.test(text)
+          ? text.match(/^HCT ([0-9a-f]{2})\s+(.+)$/i)
+          : text.match(/^VT ([0-9a-f]{4})\s+(.+)$/i);
+        if (!m) return null;
+        const section = /^HCT /i.test(text) ? "hcts" : "videoTerminals";
+        return { type: "entry", line, section, id: m[1].toLowerCase(), name: m[2].trim() };
+      }
+      default: {
+        const [section, pattern] = FLAT_SECTIONS[mode] ?? [];
+        const m = pattern && text.match(pattern);
+        if (!section || !m) return null;
+        // BIAS keys are kept as written
+        const id = section === "biasTypes" ? m[1] : m[1].toLowerCase();
+        return { type: "entry", line, section, id, name: m[2].trim() };
       }
     }
+  };
+}
+
+/**
+ * Add one parse event to a dataset, mirroring how `parseUsbIdsFull` builds it (later entries with
+ * the same ID replace earlier ones).
+ */
+export function applyUsbIdsEvent(dataset: UsbDatasetV2, event: UsbIdsParseEvent): void {
+  switch (event.type) {
+    case "vendor": {
+      const v: UsbVendorV2 = { vendor: event.vendor, name: event.name, devices: {} };
+      dataset.vendors[event.vendor] = v;
+      break;
+    }
+    case "device": {
+      const dev: UsbDeviceV2 = { devid: event.device, devname: event.name };
+      dataset.vendors[event.vendor].devices[event.device] = dev;
+      break;
+    }
+    case "subsystem": {
+      const dev = dataset.vendors[event.vendor]?.devices[event.device];
+      if (dev) {
+        if (!dev.subsystems) dev.subsystems = [];
+        dev.subsystems.push({
+          subvendor: event.subvendor,
+          subdevice: event.subdevice,
+          name: event.name,
+        });
+      }
+      break;
+    }
+    case "class": {
+      const centry: UsbClassEntry = { code: event.classCode, name: event.name, subclasses: {} };
+      dataset.classes[event.classCode] = centry;
+      break;
+    }
+    case "subclass": {
+      const scEntry: UsbSubclassEntry = {
+        code: event.subclassCode,
+        name: event.name,
+        protocols: {},
+      };
+      dataset.classes[event.classCode].subclasses[event.subclassCode] = scEntry;
+      break;
+    }
+    case "protocol": {
+      dataset.classes[event.classCode].subclasses[event.subclassCode].protocols[
+        event.protocolCode
+      ] = { code: event.protocolCode, name: event.name };
+      break;
+    }
+    case "hid-usage-page": {
+      dataset.hidUsagePages[event.page] = { pageCode: event.page, name: event.name, usages: {} };
+      break;
+    }
+    case "hid-usage": {
+      dataset.hidUsagePages[event.page].usages[event.usage] = event.name;
+      break;
+    }
+    case "language": {
+      dataset.languages[event.language] = { name: event.name };
+      break;
+    }
+    case "dialect": {
+      const lang = dataset.languages[event.language];
+      if (lang) {
+        if (!lang.dialects) lang.dialects = {};
+        lang.dialects[event.dialect] = event.name;
+      }
+      break;
+    }
+    case "entry": {
+      dataset[event.section][event.id] = event.name;
+      break;
+    }
   }
+}
 
+/**
+ * Full usb.ids parse: vendors/devices/subsystems, USB classes, HID pages, languages, etc.
+ */
+export function parseUsbIdsFull(content: string): UsbDatasetV2 {
+  const normalized = content.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
+  const dataset = createEmptyDatasetV2();
+  const parseLine = createUsbIdsLineParser();
+  normalized.split("\n").forEach((text, index) => {
+    const event = parseLine(text, index + 1);
+    if (event) applyUsbIdsEvent(dataset, event);
+  });
   return dataset;
 }
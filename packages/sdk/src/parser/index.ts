@@ -1,6 +1,10 @@
 export * from "./datetime";
 export * from "./full-usb-ids";
 export * from "./hash";
+export * from "./lsusb";
 export * from "./parse-vendors";
+export * from "./serialize-usb-ids";
+export * from "./stream-usb-ids";
 export * from "./upstream-header";
+export * from "./validate-usb-ids";
 export * from "./version-info";
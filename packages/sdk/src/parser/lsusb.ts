@@ -0,0 +1,149 @@
+/**
+ * Parse `lsusb` / `lsusb -v` text dumps (as pasted into tickets) into per-device records.
+ * Class codes are normalized to the 2-digit lower-case hex used by `usb.ids`.
+ */
+import type { UsbClassTriplet } from "../types";
+
+export interface LsusbInterface extends UsbClassTriplet {
+  /** `bInterfaceNumber` (null when the dump omits it) */
+  number: number | null;
+}
+
+export interface LsusbDevice {
+  /** 1-based line number of the `Bus … Device … ID` line */
+  line: number;
+  bus: string;
+  device: string;
+  vendorId: string;
+  productId: string;
+  /** Name text printed by lsusb after the ID (may be empty) */
+  description: string;
+  /** `bDeviceClass`/`bDeviceSubClass`/`bDeviceProtocol` from `lsusb -v` */
+  deviceClass: UsbClassTriplet | null;
+  interfaces: LsusbInterface[];
+}
+
+const BUS_LINE =
+  /^\s*Bus\s+(\d+)\s+Device\s+(\d+):\s+ID\s+([0-9a-f]{4}):([0-9a-f]{4})(?:\s+(.*))?$/i;
+const FIELD_LINE =
+  /^\s*(b(?:Device|Interface)(?:Class|SubClass|Protocol)|bInterfaceNumber)\s+(\S+)/;
+
+function toHexCode(value: string): string | null {
+  const n = /^0x[0-9a-f]+$/i.test(value) ? Number.parseInt(value, 16) : Number.parseInt(value, 10);
+  if (!Number.isInteger(n) || n < 0 || n > 0xff) return null;
+  return n.toString(16).padStart(2, "0");
+}
+
+/**
+ * Parse an `lsusb` dump. A device listed more than once (e.g. `lsusb` pasted above `lsusb -v`)
+ * becomes one record, matched by bus, device number and ID: the first listing keeps its line,
+ * and later listings fill in the description, class and interfaces.
+ */
+export function parseLsusb(content: string): LsusbDevice[] {
+  const lines = content.replace(/\r\n/g, "\n").replace(/\r/g, "\n").split("\n");
+  const devices: LsusbDevice[] = [];
+  const byAddress = new Map<string, LsusbDevice>();
+  let current: LsusbDevice | null = null;
+  // Interfaces of `current` from an earlier listing, kept unless this listing has its own
+  let earlierInterfaces: LsusbInterface[] = [];
+  let currentInterface: Partial<LsusbInterface> | null = null;
+  let deviceClass: Partial<UsbClassTriplet> = {};
+
+  const flushInterface = () => {
+    if (current && currentInterface?.classCode) {
+      current.interfaces.push({
+        number: currentInterface.number ?? null,
+        classCode: currentInterface.classCode,
+        subclassCode: currentInterface.subclassCode ?? "00",
+        protocolCode: currentInterface.protocolCode ?? "00",
+      });
+    }
+    currentInterface = null;
+  };
+
+  const flushDevice = () => {
+    flushInterface();
+    if (current && current.interfaces.length === 0) current.interfaces = earlierInterfaces;
+    earlierInterfaces = [];
+    if (current && deviceClass.classCode) {
+      current.deviceClass = {
+        classCode: deviceClass.classCode,
+        subclassCode: deviceClass.subclassCode ?? "00",
+        protocolCode: deviceClass.protocolCode ?? "00",
+      };
+    }
+    deviceClass = {};
+  };
+
+  lines.forEach((line, index) => {
+    const bus = line.match(BUS_LINE);
+    if (bus) {
+      flushDevice();
+      const vendorId = bus[3].toLowerCase();
+      const productId = bus[4].toLowerCase();
+      const description = (bus[5] ?? "").trim();
+      const address = `${Number(bus[1])}:${Number(bus[2])}:${vendorId}:${productId}`;
+      const listed = byAddress.get(address);
+      if (listed) {
+        current = listed;
+        if (!listed.description) listed.description = description;
+        earlierInterfaces = listed.interfaces;
+        listed.interfaces = [];
+        return;
+      }
+      current = {
+        line: index + 1,
+        bus: bus[1],
+        device: bus[2],
+        vendorId,
+        productId,
+        description,
+        deviceClass: null,
+        interfaces: [],
+      };
+      byAddress.set(address, current);
+      devices.push(current);
+      return;
+    }
+    if (!current) return;
+
+    if (/^\s*Interface Descriptor:/.test(line)) {
+      flushInterface();
+      currentInterface = {};
+      return;
+    }
+
+    const field = line.match(FIELD_LINE);
+    if (!field) return;
+    const [, key, value] = field;
+    if (key === "bInterfaceNumber") {
+      if (currentInterface) currentInterface.number = Number.parseInt(value, 10);
+      return;
+    }
+    const code = toHexCode(value);
+    if (code === null) return;
+    switch (key) {
+      case "bDeviceClass":
+        deviceClass.classCode = code;
+        break;
+      case "bDeviceSubClass":
+        deviceClass.subclassCode = code;
+        break;
+      case "bDeviceProtocol":
+        deviceClass.protocolCode = code;
+        break;
+      case "bInterfaceClass":
+        if (currentInterface) currentInterface.classCode = code;
+        break;
+      case "bInterfaceSubClass":
+        if (currentInterface) currentInterface.subclassCode = code;
+        break;
+      case "bInterfaceProtocol":
+        if (currentInterface) currentInterface.protocolCode = code;
+        break;
+    }
+  });
+  flushDevice();
+
+  return devices;
+}
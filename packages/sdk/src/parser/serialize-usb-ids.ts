@@ -0,0 +1,145 @@
+/**
+ * Serialize a schema v2 dataset back to upstream `usb.ids` text: tab indentation, two spaces
+ * between ID and name, sections in upstream order. Round-trips through `parseUsbIdsFull`.
+ */
+import type { UsbDatasetV2 } from "../types";
+import type { UsbIdsHeader } from "./upstream-header";
+
+/** Keys are hex of varying width (`1`, `01`, `001`); sort by value, then text for stable output. */
+function sortedKeys(record: Record<string, unknown>): string[] {
+  return Object.keys(record).sort(
+    (a, b) => Number.parseInt(a, 16) - Number.parseInt(b, 16) || a.localeCompare(b),
+  );
+}
+
+function section(title: string[], syntax: string[], body: string[]): string[] {
+  if (body.length === 0) return [];
+  return ["", ...title.map((t) => `# ${t}`), "", "# Syntax:", ...syntax, "", ...body];
+}
+
+function flat(prefix: string, record: Record<string, string>): string[] {
+  return sortedKeys(record).map((id) => `${prefix} ${id}  ${record[id]}`);
+}
+
+function headerLines(header: UsbIdsHeader): string[] {
+  const lines = ["#", "#\tList of USB ID's", "#"];
+  if (header.version) lines.push(`# Version: ${header.version}`);
+  if (header.date) lines.push(`# Date:    ${header.date}`);
+  lines.push("#");
+  return lines;
+}
+
+/**
+ * Canonical `usb.ids` text for a dataset. Empty sections are omitted; `header.version` /
+ * `header.date` become the `# Version:` / `# Date:` comment lines read by `parseUsbIdsHeader`.
+ */
+export function serializeUsbIds(dataset: UsbDatasetV2, header: UsbIdsHeader): string {
+  const vendors: string[] = [];
+  for (const vid of sortedKeys(dataset.vendors)) {
+    const vendor = dataset.vendors[vid];
+    vendors.push(`${vid}  ${vendor.name}`);
+    for (const did of sortedKeys(vendor.devices)) {
+      const device = vendor.devices[did];
+      vendors.push(`\t${did}  ${device.devname}`);
+      for (const s of device.subsystems ?? []) {
+        vendors.push(`\t\t${s.subvendor} ${s.subdevice}  ${s.name}`);
+      }
+    }
+  }
+
+  const classes: string[] = [];
+  for (const cc of sortedKeys(dataset.classes)) {
+    const cls = dataset.classes[cc];
+    classes.push(`C ${cc}  ${cls.name}`);
+    for (const sc of sortedKeys(cls.subclasses)) {
+      const sub = cls.subclasses[sc];
+      classes.push(`\t${sc}  ${sub.name}`);
+      for (const pc of sortedKeys(sub.protocols)) {
+        classes.push(`\t\t${pc}  ${sub.protocols[pc].name}`);
+      }
+    }
+  }
+
+  const usages: string[] = [];
+  for (const pid of sortedKeys(dataset.hidUsagePages)) {
+    const page = dataset.hidUsagePages[pid];
+    usages.push(`HUT ${pid}  ${page.name}`);
+    for (const uid of sortedKeys(page.usages)) usages.push(`\t${uid}  ${page.usages[uid]}`);
+  }
+
+  const languages: string[] = [];
+  for (const lid of sortedKeys(dataset.languages)) {
+    const lang = dataset.languages[lid];
+    languages.push(`L ${lid}  ${lang.name}`);
+    const dialects = lang.dialects ?? {};
+    for (const did of sortedKeys(dialects)) languages.push(`\t${did}  ${dialects[did]}`);
+  }
+
+  const lines = [
+    ...headerLines(header),
+    ...section(
+      ["Vendors, devices and interfaces. Please keep sorted."],
+      [
+        "# vendor  vendor_name",
+        "#\tdevice  device_name\t\t\t\t<-- single tab",
+        "#\t\tinterface  interface_name\t\t<-- two tabs",
+      ],
+      vendors,
+    ),
+    ...section(
+      ["List of known device classes, subclasses and protocols"],
+      [
+        "# C class  class_name",
+        "#\tsubclass  subclass_name\t\t\t<-- single tab",
+        "#\t\tprotocol  protocol_name\t\t<-- two tabs",
+      ],
+      classes,
+    ),
+    ...section(
+      ["List of Audio Class Terminal Types"],
+      ["# AT terminal_type  terminal_type_name"],
+      flat("AT", dataset.audioTerminals),
+    ),
+    ...section(
+      ["List of HID Descriptor Types"],
+      ["# HID descriptor_type  descriptor_type_name"],
+      flat("HID", dataset.hidDescriptors),
+    ),
+    ...section(
+      ["List of HID Descriptor Item Types", "Note: 2 bits LSB encode data length following"],
+      ["# R item_type  item_type_name"],
+      flat("R", dataset.hidItemTypes),
+    ),
+    ...section(
+      ["List of Physical Descriptor Bias Types"],
+      ["# BIAS item_type  item_type_name"],
+      flat("BIAS", dataset.biasTypes),
+    ),
+    ...section(
+      ["List of Physical Descriptor Item Types"],
+      ["# PHY item_type  item_type_name"],
+      flat("PHY", dataset.phyTypes),
+    ),
+    ...section(
+      ["List of HID Usages"],
+      ["# HUT hi  _usage_page  hid_usage_page_name", "#\thid_usage  hid_usage_name"],
+      usages,
+    ),
+    ...section(
+      ["List of Languages"],
+      ["# L language_id  language_name", "#\tdialect_id  dialect_name"],
+      languages,
+    ),
+    ...section(
+      ["HID Descriptor bCountryCode", "HID Specification 1.11 (2001-06-27) page 23"],
+      ["# HCC country_code keymap_type"],
+      flat("HCC", dataset.hidCountryCodes),
+    ),
+    ...section(
+      ["List of Video Class Terminal Types"],
+      ["# VT terminal_type  terminal_type_name"],
+      [...flat("VT", dataset.videoTerminals), ...flat("HCT", dataset.hcts)],
+    ),
+  ];
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Incremental `usb.ids` parsing over chunked input, so large downloads can be parsed as they
+ * arrive without holding the whole text in memory. Uses the same line parser as `parseUsbIdsFull`.
+ */
+import type { UsbDatasetV2 } from "../types";
+import {
+  applyUsbIdsEvent,
+  createEmptyDatasetV2,
+  createUsbIdsLineParser,
+  type UsbIdsParseEvent,
+} from "./full-usb-ids";
+
+/**
+ * Text or UTF-8 byte chunks: a WHATWG `ReadableStream`, or any async iterable such as a Node
+ * `Readable` or an async generator.
+ */
+export type UsbIdsChunkSource =
+  | ReadableStream<string | Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+export interface UsbIdsStreamOptions {
+  /** Called for every entry as it is parsed, before it is added to the dataset */
+  onEvent?: (event: UsbIdsParseEvent) => void;
+}
+
+function isReadableStream(
+  source: UsbIdsChunkSource,
+): source is ReadableStream<string | Uint8Array> {
+  return typeof (source as ReadableStream).getReader === "function";
+}
+
+async function* readChunks(source: UsbIdsChunkSource): AsyncGenerator<string | Uint8Array> {
+  if (!isReadableStream(source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Split chunks into lines on `\n`, `\r\n` or `\r`, including terminators split across chunks. */
+async function* readLines(source: UsbIdsChunkSource): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of readChunks(source)) {
+    pending += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+    // A trailing `\r` may be the first half of `\r\n`; keep it until the next chunk
+    const heldCr = pending.endsWith("\r");
+    const lines = (heldCr ? pending.slice(0, -1) : pending).split(/\r\n|\r|\n/);
+    pending = (lines.pop() ?? "") + (heldCr ? "\r" : "");
+    yield* lines;
+  }
+  pending += decoder.decode();
+  yield* pending.split(/\r\n|\r|\n/);
+}
+
+/**
+ * Parse events in file order (vendor, device, subsystem, class, …) as chunks arrive.
+ */
+export async function* streamUsbIdsEvents(
+  source: UsbIdsChunkSource,
+): AsyncGenerator<UsbIdsParseEvent> {
+  const parseLine = createUsbIdsLineParser();
+  let lineNumber = 0;
+  for await (const text of readLines(source)) {
+    const event = parseLine(text, ++lineNumber);
+    if (event) yield event;
+  }
+}
+
+/**
+ * Build a `UsbDatasetV2` incrementally from chunked input; the result equals
+ * `parseUsbIdsFull` on the concatenated text.
+ */
+export async function parseUsbIdsStream(
+  source: UsbIdsChunkSource,
+  options: UsbIdsStreamOptions = {},
+): Promise<UsbDatasetV2> {
+  const dataset = createEmptyDatasetV2();
+  for await (const event of streamUsbIdsEvents(source)) {
+    options.onEvent?.(event);
+    applyUsbIdsEvent(dataset, event);
+  }
+  return dataset;
+}
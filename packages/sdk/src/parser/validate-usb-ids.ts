@@ -0,0 +1,230 @@
+/**
+ * Strict checks for `usb.ids` text. `parseUsbIdsFull` is lenient and skips what it cannot read;
+ * this reports those lines (and other upstream style violations) with line numbers instead.
+ */
+
+export type UsbIdsDiagnosticSeverity = "error" | "warning";
+
+export type UsbIdsDiagnosticCode =
+  | "unparseable-line"
+  | "duplicate-id"
+  | "unsorted-id"
+  | "bad-indentation"
+  | "trailing-whitespace"
+  | "unknown-section"
+  | "section-order";
+
+export interface UsbIdsDiagnostic {
+  /** 1-based line number */
+  line: number;
+  severity: UsbIdsDiagnosticSeverity;
+  code: UsbIdsDiagnosticCode;
+  message: string;
+}
+
+export interface UsbIdsValidationResult {
+  /** True when there are no errors (warnings alone keep the content valid) */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  /** Sorted by line */
+  diagnostics: UsbIdsDiagnostic[];
+}
+
+interface SectionRule {
+  /** Prefixes of top-level lines, e.g. `C`; empty for the vendor list */
+  prefixes: string[];
+  label: string;
+  /** Entry pattern at each indentation depth (after the prefix); groups form the ID */
+  levels: RegExp[];
+  /** Overrides `levels` for prefixes sharing a section with different ID widths */
+  prefixLevels?: Record<string, RegExp[]>;
+  /** Labels of each level for messages; flat sections use their prefix */
+  names: string[];
+}
+
+const HEX2 = /^([0-9a-f]{2})\s+\S/i;
+const HEX4 = /^([0-9a-f]{4})\s+\S/i;
+
+/** Sections in the order upstream lists them. */
+const SECTIONS: SectionRule[] = [
+  {
+    prefixes: [],
+    label: "vendors",
+    levels: [HEX4, HEX4, /^([0-9a-f]{4})\s+([0-9a-f]{4})\s+\S/i],
+    names: ["vendor", "device", "subsystem"],
+  },
+  {
+    prefixes: ["C"],
+    label: "classes",
+    levels: [HEX2, HEX2, HEX2],
+    names: ["class", "subclass", "protocol"],
+  },
+  { prefixes: ["AT"], label: "audio terminals", levels: [HEX4], names: [] },
+  { prefixes: ["HID"], label: "HID descriptors", levels: [HEX2], names: [] },
+  { prefixes: ["R"], label: "HID items", levels: [HEX2], names: [] },
+  { prefixes: ["BIAS"], label: "bias types", levels: [/^([0-9a-f]+)\s+\S/i], names: [] },
+  { prefixes: ["PHY"], label: "physical types", levels: [HEX2], names: [] },
+  {
+    prefixes: ["HUT"],
+    label: "HID usages",
+    levels: [HEX2, /^([0-9a-f]{1,4})\s+\S/i],
+    names: ["HID usage page", "HID usage"],
+  },
+  {
+    prefixes: ["L"],
+    label: "languages",
+    levels: [HEX4, HEX2],
+    names: ["language", "dialect"],
+  },
+  { prefixes: ["HCC"], label: "HID country codes", levels: [HEX2], names: [] },
+  {
+    prefixes: ["VT", "HCT"],
+    label: "video terminals",
+    levels: [HEX4],
+    prefixLevels: { HCT: [HEX2] },
+    names: [],
+  },
+];
+
+const VENDOR_LINE = /^[0-9a-f]{4}\s/i;
+const PREFIXED_LINE = /^([A-Z]+) (.*)$/;
+
+interface Scope {
+  firstLine: Map<string, number>;
+  last: { id: string; value: number } | null;
+}
+
+function idValue(id: string): number {
+  return id.split(" ").reduce((acc, part) => acc * 0x10000 + Number.parseInt(part, 16), 0);
+}
+
+/**
+ * Validate `usb.ids` text line by line (pure function). Errors: unparseable lines, duplicate IDs,
+ * bad indentation, unknown section prefixes and sections out of upstream order. Warnings: IDs not
+ * sorted within their parent and trailing whitespace.
+ */
+export function validateUsbIds(content: string): UsbIdsValidationResult {
+  const lines = content.replace(/\r\n/g, "\n").replace(/\r/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const diagnostics: UsbIdsDiagnostic[] = [];
+  const report = (
+    line: number,
+    severity: UsbIdsDiagnosticSeverity,
+    code: UsbIdsDiagnosticCode,
+    message: string,
+  ) => diagnostics.push({ line, severity, code, message });
+
+  const scopes = new Map<string, Scope>();
+  let section = 0;
+  let prefix = "";
+  /** Scope keys of the current parent at each depth, e.g. `["vendors", "vendors/aaaa"]` */
+  let parents: string[] = [];
+
+  lines.forEach((text, index) => {
+    const lineNo = index + 1;
+    if (/[ \t]$/.test(text)) {
+      report(lineNo, "warning", "trailing-whitespace", "Trailing whitespace");
+    }
+    const trimmed = text.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return;
+
+    if (/^\t* /.test(text)) {
+      report(lineNo, "error", "bad-indentation", "Indentation must use tabs only");
+      return;
+    }
+    const depth = text.length - text.replace(/^\t+/, "").length;
+    let body = text.slice(depth).trimEnd();
+
+    if (depth === 0) {
+      const prefixed = VENDOR_LINE.test(body) ? null : body.match(PREFIXED_LINE);
+      let target = 0;
+      if (prefixed) {
+        target = SECTIONS.findIndex((s) => s.prefixes.includes(prefixed[1]));
+        if (target === -1) {
+          report(lineNo, "error", "unknown-section", `Unknown section prefix "${prefixed[1]}"`);
+          return;
+        }
+        prefix = prefixed[1];
+        body = prefixed[2];
+      } else if (!VENDOR_LINE.test(body)) {
+        report(lineNo, "error", "unparseable-line", `Cannot parse line: ${trimmed}`);
+        return;
+      }
+      if (target < section) {
+        report(
+          lineNo,
+          "error",
+          "section-order",
+          `Entry for ${SECTIONS[target].label} after the ${SECTIONS[section].label} section`,
+        );
+        return;
+      }
+      section = target;
+      // VT and HCT share a section but are separate ID lists
+      parents = [prefixed ? prefix : SECTIONS[section].label];
+    }
+
+    const rule = SECTIONS[section];
+    const levels = rule.prefixLevels?.[prefix] ?? rule.levels;
+    const name = rule.names[depth] ?? prefix;
+    if (depth >= levels.length) {
+      report(
+        lineNo,
+        "error",
+        "bad-indentation",
+        `Too deeply indented for the ${rule.label} section`,
+      );
+      return;
+    }
+    if (depth > parents.length - 1) {
+      report(lineNo, "error", "bad-indentation", `Missing parent entry for ${name} line`);
+      return;
+    }
+
+    const m = body.match(levels[depth]);
+    if (!m) {
+      report(lineNo, "error", "unparseable-line", `Cannot parse ${name} line: ${trimmed}`);
+      return;
+    }
+
+    const id = m.slice(1).join(" ").toLowerCase();
+    const scopeKey = parents[depth];
+    let scope = scopes.get(scopeKey);
+    if (!scope) {
+      scope = { firstLine: new Map(), last: null };
+      scopes.set(scopeKey, scope);
+    }
+    const first = scope.firstLine.get(id);
+    if (first !== undefined) {
+      report(
+        lineNo,
+        "error",
+        "duplicate-id",
+        `Duplicate ${name} ID ${id} (first defined on line ${first})`,
+      );
+    } else {
+      scope.firstLine.set(id, lineNo);
+      const value = idValue(id);
+      if (scope.last && value < scope.last.value) {
+        report(
+          lineNo,
+          "warning",
+          "unsorted-id",
+          `Unsorted ${name} ID ${id} (listed after ${scope.last.id})`,
+        );
+      }
+      scope.last = { id, value };
+    }
+    parents = [...parents.slice(0, depth + 1), `${scopeKey}/${id}`];
+  });
+
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
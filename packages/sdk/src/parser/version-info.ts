@@ -3,7 +3,8 @@ import { nextCalVer } from "../calver";
 import { formatDateTime } from "./datetime";
 import { generateContentHash } from "./hash";
 
-function countVendorsAndDevices(data: UsbIdsData | UsbDatasetV2): {
+/** Counts recorded in the version manifest (vendors and their devices; subsystems excluded). */
+export function countVendorsAndDevices(data: UsbIdsData | UsbDatasetV2): {
   vendorCount: number;
   deviceCount: number;
 } {
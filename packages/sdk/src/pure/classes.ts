@@ -0,0 +1,127 @@
+import type {
+  UsbClassEntry,
+  UsbClassTriplet,
+  UsbDatasetV2,
+  UsbProtocolEntry,
+  UsbSubclassEntry,
+} from "../types";
+import { ERROR_CODES, UsbApiError } from "../errors";
+
+/** Hierarchy level of the `C` section that resolved a lookup. */
+export type UsbClassLevel = "class" | "subclass" | "protocol";
+
+/** Class codes may be given as numbers (`3`) or hex strings (`"03"`, `"0x03"`). */
+export type UsbClassCode = number | string;
+
+export interface UsbClassMatch {
+  classCode: string;
+  subclassCode: string | null;
+  protocolCode: string | null;
+  class: UsbClassEntry | null;
+  subclass: UsbSubclassEntry | null;
+  protocol: UsbProtocolEntry | null;
+  /** Most specific level that resolved; null when the class code itself is unknown */
+  matched: UsbClassLevel | null;
+  /** Name at the matched level */
+  name: string | null;
+}
+
+export interface DecodedUsbClass extends UsbClassTriplet {
+  className: string | null;
+  subclassName: string | null;
+  protocolName: string | null;
+  /** True when the class code is not listed in the `C` section */
+  unknown: boolean;
+}
+
+function normalizeClassCode(code: UsbClassCode, label: string): string {
+  const n =
+    typeof code === "number"
+      ? code
+      : /^(?:0x)?[0-9a-f]{1,2}$/i.test(code.trim())
+        ? Number.parseInt(code.trim().replace(/^0x/i, ""), 16)
+        : Number.NaN;
+  if (!Number.isInteger(n) || n < 0 || n > 0xff) {
+    throw new UsbApiError(`Invalid ${label} code: ${String(code)}`, ERROR_CODES.INVALID_PARAMETER);
+  }
+  return n.toString(16).padStart(2, "0");
+}
+
+/**
+ * Look up a USB class entry by code (pure function).
+ */
+export function getClassInData(
+  dataset: UsbDatasetV2,
+  classCode: UsbClassCode,
+): UsbClassEntry | null {
+  return dataset.classes[normalizeClassCode(classCode, "class")] ?? null;
+}
+
+/**
+ * Resolve class + subclass; falls back to the class level when the subclass is unknown.
+ */
+export function getSubclassInData(
+  dataset: UsbDatasetV2,
+  classCode: UsbClassCode,
+  subclassCode: UsbClassCode,
+): UsbClassMatch {
+  const cc = normalizeClassCode(classCode, "class");
+  const sc = normalizeClassCode(subclassCode, "subclass");
+  const cls = dataset.classes[cc] ?? null;
+  const sub = cls?.subclasses[sc] ?? null;
+  const matched: UsbClassLevel | null = sub ? "subclass" : cls ? "class" : null;
+  return {
+    classCode: cc,
+    subclassCode: sc,
+    protocolCode: null,
+    class: cls,
+    subclass: sub,
+    protocol: null,
+    matched,
+    name: (sub ?? cls)?.name ?? null,
+  };
+}
+
+/**
+ * Resolve an interface class/subclass/protocol triplet, falling back to the most specific
+ * level that exists in the `C` section.
+ */
+export function describeInterfaceInData(
+  dataset: UsbDatasetV2,
+  classCode: UsbClassCode,
+  subclassCode: UsbClassCode,
+  protocolCode: UsbClassCode,
+): UsbClassMatch {
+  const base = getSubclassInData(dataset, classCode, subclassCode);
+  const pc = normalizeClassCode(protocolCode, "protocol");
+  const prot = base.subclass?.protocols[pc] ?? null;
+  return {
+    ...base,
+    protocolCode: pc,
+    protocol: prot,
+    matched: prot ? "protocol" : base.matched,
+    name: prot?.name ?? base.name,
+  };
+}
+
+/**
+ * Resolve a class triplet to flat names (pure function).
+ */
+export function decodeClassInData(
+  dataset: UsbDatasetV2,
+  triplet: UsbClassTriplet,
+): DecodedUsbClass {
+  const m = describeInterfaceInData(
+    dataset,
+    triplet.classCode,
+    triplet.subclassCode,
+    triplet.protocolCode,
+  );
+  return {
+    ...triplet,
+    className: m.class?.name ?? null,
+    subclassName: m.subclass?.name ?? null,
+    protocolName: m.protocol?.name ?? null,
+    unknown: m.matched === null,
+  };
+}
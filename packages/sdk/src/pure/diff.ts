@@ -0,0 +1,137 @@
+import type { DatasetChangeCounts, UsbDatasetV2, UsbIdsData } from "../types";
+import { toV2 } from "../legacy/to-v2";
+
+export type { DatasetChangeCounts } from "../types";
+
+export type DatasetChangeKind = "added" | "removed" | "renamed";
+
+export interface DatasetChange {
+  kind: DatasetChangeKind;
+  /**
+   * Entry ID: `vvvv` (vendor), `vvvv:pppp` (device), `vvvv:pppp svid:sdid` (subsystem),
+   * `cc[:ss[:pp]]` (class level) or `page[:usage]` (HID usage page / usage)
+   */
+  id: string;
+  /** Null for added entries */
+  oldName: string | null;
+  /** Null for removed entries */
+  newName: string | null;
+}
+
+export interface DatasetDiff {
+  vendors: DatasetChange[];
+  devices: DatasetChange[];
+  subsystems: DatasetChange[];
+  classes: DatasetChange[];
+  hidUsages: DatasetChange[];
+}
+
+export type DatasetDiffSection = keyof DatasetDiff;
+
+export const DATASET_DIFF_SECTIONS: DatasetDiffSection[] = [
+  "vendors",
+  "devices",
+  "subsystems",
+  "classes",
+  "hidUsages",
+];
+
+/** Flatten one section into `id → name` so both sides compare by key. */
+type NameMap = Map<string, string>;
+
+function vendorNames(d: UsbDatasetV2): NameMap {
+  return new Map(Object.values(d.vendors).map((v) => [v.vendor, v.name]));
+}
+
+function deviceNames(d: UsbDatasetV2): NameMap {
+  const map: NameMap = new Map();
+  for (const v of Object.values(d.vendors)) {
+    for (const dev of Object.values(v.devices)) map.set(`${v.vendor}:${dev.devid}`, dev.devname);
+  }
+  return map;
+}
+
+function subsystemNames(d: UsbDatasetV2): NameMap {
+  const map: NameMap = new Map();
+  for (const v of Object.values(d.vendors)) {
+    for (const dev of Object.values(v.devices)) {
+      for (const s of dev.subsystems ?? []) {
+        map.set(`${v.vendor}:${dev.devid} ${s.subvendor}:${s.subdevice}`, s.name);
+      }
+    }
+  }
+  return map;
+}
+
+function classNames(d: UsbDatasetV2): NameMap {
+  const map: NameMap = new Map();
+  for (const cls of Object.values(d.classes)) {
+    map.set(cls.code, cls.name);
+    for (const sub of Object.values(cls.subclasses)) {
+      map.set(`${cls.code}:${sub.code}`, sub.name);
+      for (const prot of Object.values(sub.protocols)) {
+        map.set(`${cls.code}:${sub.code}:${prot.code}`, prot.name);
+      }
+    }
+  }
+  return map;
+}
+
+function hidUsageNames(d: UsbDatasetV2): NameMap {
+  const map: NameMap = new Map();
+  for (const page of Object.values(d.hidUsagePages)) {
+    map.set(page.pageCode, page.name);
+    for (const [usage, name] of Object.entries(page.usages)) {
+      map.set(`${page.pageCode}:${usage}`, name);
+    }
+  }
+  return map;
+}
+
+function compareNames(before: NameMap, after: NameMap): DatasetChange[] {
+  const changes: DatasetChange[] = [];
+  for (const [id, oldName] of before) {
+    const newName = after.get(id);
+    if (newName === undefined) changes.push({ kind: "removed", id, oldName, newName: null });
+    else if (newName !== oldName) changes.push({ kind: "renamed", id, oldName, newName });
+  }
+  for (const [id, newName] of after) {
+    if (!before.has(id)) changes.push({ kind: "added", id, oldName: null, newName });
+  }
+  return changes.sort((x, y) => x.id.localeCompare(y.id));
+}
+
+/**
+ * Compare two datasets (v1 data is lifted with `toV2`) and list added, removed and renamed
+ * entries per section, sorted by ID (pure function). Devices of an added or removed vendor are
+ * listed as well, so device counts match the totals.
+ */
+export function diffDatasets(
+  a: UsbIdsData | UsbDatasetV2,
+  b: UsbIdsData | UsbDatasetV2,
+): DatasetDiff {
+  const before = toV2(a);
+  const after = toV2(b);
+  return {
+    vendors: compareNames(vendorNames(before), vendorNames(after)),
+    devices: compareNames(deviceNames(before), deviceNames(after)),
+    subsystems: compareNames(subsystemNames(before), subsystemNames(after)),
+    classes: compareNames(classNames(before), classNames(after)),
+    hidUsages: compareNames(hidUsageNames(before), hidUsageNames(after)),
+  };
+}
+
+/**
+ * Count changes by kind in each section (pure function).
+ */
+export function countDatasetChanges(
+  diff: DatasetDiff,
+): Record<DatasetDiffSection, DatasetChangeCounts> {
+  const counts = {} as Record<DatasetDiffSection, DatasetChangeCounts>;
+  for (const section of DATASET_DIFF_SECTIONS) {
+    const c: DatasetChangeCounts = { added: 0, removed: 0, renamed: 0 };
+    for (const change of diff[section]) c[change.kind]++;
+    counts[section] = c;
+  }
+  return counts;
+}
@@ -0,0 +1,262 @@
+/**
+ * Decode HID report descriptors (as dumped by `usbhid-dump` or read from sysfs `report_descriptor`)
+ * into an item tree, naming items via the `R` section and usages via the `HUT` section.
+ */
+import type { UsbDatasetV2 } from "../types";
+import { ERROR_CODES, UsbApiError } from "../errors";
+import { getHidCountryInData, getHidUsageInData, getHidUsagePageInData } from "./hid";
+
+export type HidItemKind = "main" | "global" | "local" | "reserved" | "long";
+
+export interface HidReportItem {
+  /** Byte offset of the item prefix within the descriptor */
+  offset: number;
+  /** Raw item bytes (prefix + data), lower-case hex separated by spaces */
+  bytes: string;
+  kind: HidItemKind;
+  /** Item tag key as used by the `R` section (prefix with the size bits cleared), e.g. `"04"` */
+  tag: string;
+  /** Item name from the `R` section, null when unknown */
+  name: string | null;
+  /** Data as unsigned little-endian integer (signed for logical/physical extents and exponents) */
+  value: number;
+  /** Human-readable meaning of the value (usage name, collection type, main item flags, …) */
+  description: string | null;
+  /** Usage page in effect for `Usage`/`Usage Minimum`/`Usage Maximum` items */
+  usagePage?: string;
+  /** Items nested in a `Collection`; the matching `End Collection` follows as a sibling */
+  children?: HidReportItem[];
+}
+
+export interface HidCountry {
+  code: number;
+  name: string | null;
+}
+
+export interface DecodedHidReportDescriptor {
+  /** Top-level items; collections hold their contents in `children` */
+  items: HidReportItem[];
+  /** Total number of items, including nested ones */
+  itemCount: number;
+  byteLength: number;
+  /** HID descriptor `bCountryCode` resolved via the `HCC` section, when one was given */
+  country: HidCountry | null;
+}
+
+export interface HidReportDecodeOptions {
+  /** `bCountryCode` from the HID class descriptor */
+  countryCode?: number;
+}
+
+const KINDS: HidItemKind[] = ["main", "global", "local", "reserved"];
+
+const COLLECTION_TYPES = [
+  "Physical",
+  "Application",
+  "Logical",
+  "Report",
+  "Named Array",
+  "Usage Switch",
+  "Usage Modifier",
+];
+
+/** Bit meanings of Input/Output/Feature data, as [clear, set] pairs (bit 7 is reserved on Input). */
+const MAIN_FLAGS: Array<[string, string]> = [
+  ["Data", "Constant"],
+  ["Array", "Variable"],
+  ["Absolute", "Relative"],
+  ["No Wrap", "Wrap"],
+  ["Linear", "Non Linear"],
+  ["Preferred State", "No Preferred State"],
+  ["No Null Position", "Null State"],
+  ["Non Volatile", "Volatile"],
+  ["Bit Field", "Buffered Bytes"],
+];
+
+const TAG = {
+  INPUT: 0x80,
+  OUTPUT: 0x90,
+  FEATURE: 0xb0,
+  COLLECTION: 0xa0,
+  END_COLLECTION: 0xc0,
+  USAGE_PAGE: 0x04,
+  LOGICAL_MINIMUM: 0x14,
+  LOGICAL_MAXIMUM: 0x24,
+  PHYSICAL_MINIMUM: 0x34,
+  PHYSICAL_MAXIMUM: 0x44,
+  UNIT_EXPONENT: 0x54,
+  PUSH: 0xa4,
+  POP: 0xb4,
+  USAGE: 0x08,
+  USAGE_MINIMUM: 0x18,
+  USAGE_MAXIMUM: 0x28,
+} as const;
+
+const SIGNED_TAGS = new Set<number>([
+  TAG.LOGICAL_MINIMUM,
+  TAG.LOGICAL_MAXIMUM,
+  TAG.PHYSICAL_MINIMUM,
+  TAG.PHYSICAL_MAXIMUM,
+  TAG.UNIT_EXPONENT,
+]);
+
+const USAGE_TAGS = new Set<number>([TAG.USAGE, TAG.USAGE_MINIMUM, TAG.USAGE_MAXIMUM]);
+
+function hex(n: number): string {
+  return n.toString(16).padStart(2, "0");
+}
+
+/**
+ * Accepts `"05 01 09 02"`, `"0x05, 0x01"` or `"05010902"`; whitespace and commas are ignored.
+ */
+function toDescriptorBytes(input: string | Uint8Array): Uint8Array {
+  if (typeof input !== "string") return input;
+  const compact = input.replace(/0x/gi, "").replace(/[\s,]+/g, "");
+  if (!/^(?:[0-9a-f]{2})*$/i.test(compact)) {
+    throw new UsbApiError(
+      "Invalid HID report descriptor: expected hex byte pairs",
+      ERROR_CODES.INVALID_PARAMETER,
+    );
+  }
+  const bytes = new Uint8Array(compact.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(compact.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function readValue(data: Uint8Array, signed: boolean): number {
+  let value = 0;
+  for (let i = data.length - 1; i >= 0; i--) value = value * 0x100 + data[i];
+  if (signed && data.length > 0 && data[data.length - 1] & 0x80) {
+    value -= 2 ** (8 * data.length);
+  }
+  return value;
+}
+
+function describeMainFlags(tag: number, value: number): string {
+  return MAIN_FLAGS.flatMap(([clear, set], bit) => {
+    if (tag === TAG.INPUT && bit === 7) return [];
+    return [value & (1 << bit) ? set : clear];
+  }).join(", ");
+}
+
+function describeCollection(value: number): string {
+  if (value >= 0x80 && value <= 0xff) return "Vendor Defined";
+  return COLLECTION_TYPES[value] ?? "Reserved";
+}
+
+function describeUsage(
+  dataset: UsbDatasetV2,
+  page: number,
+  usage: number,
+): { usagePage: string; description: string | null } {
+  const match = getHidUsageInData(dataset, page, usage);
+  return { usagePage: hex(page), description: match?.usageName ?? null };
+}
+
+/**
+ * Decode a HID report descriptor against the dataset's `R`, `HUT` and `HCC` tables (pure function).
+ * Usage items are named in the context of the current (or extended 32-bit) usage page, following
+ * `Push`/`Pop` of the global state.
+ */
+export function decodeHidReportDescriptorInData(
+  dataset: UsbDatasetV2,
+  descriptor: string | Uint8Array,
+  options: HidReportDecodeOptions = {},
+): DecodedHidReportDescriptor {
+  const bytes = toDescriptorBytes(descriptor);
+  const root: HidReportItem[] = [];
+  const stack: HidReportItem[][] = [root];
+  const pageStack: number[] = [];
+  let usagePage = 0;
+  let itemCount = 0;
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const prefix = bytes[offset];
+    let item: HidReportItem;
+
+    if (prefix === 0xfe) {
+      const size = bytes[offset + 1];
+      const end = offset + 3 + (size ?? 0);
+      if (size === undefined || end > bytes.length) {
+        throw new UsbApiError(
+          `Truncated HID long item at offset ${offset}`,
+          ERROR_CODES.INVALID_PARAMETER,
+        );
+      }
+      item = {
+        offset,
+        bytes: Array.from(bytes.subarray(offset, end), (b) => hex(b)).join(" "),
+        kind: "long",
+        tag: hex(bytes[offset + 2]),
+        name: null,
+        value: 0,
+        description: `Long item (${size} data bytes)`,
+      };
+      offset = end;
+    } else {
+      const sizeBits = prefix & 0x03;
+      const size = sizeBits === 3 ? 4 : sizeBits;
+      const end = offset + 1 + size;
+      if (end > bytes.length) {
+        throw new UsbApiError(
+          `Truncated HID item at offset ${offset}`,
+          ERROR_CODES.INVALID_PARAMETER,
+        );
+      }
+      const tag = prefix & 0xfc;
+      const data = bytes.subarray(offset + 1, end);
+      const value = readValue(data, SIGNED_TAGS.has(tag));
+      item = {
+        offset,
+        bytes: Array.from(bytes.subarray(offset, end), (b) => hex(b)).join(" "),
+        kind: KINDS[(prefix >> 2) & 0x03],
+        tag: hex(tag),
+        name: dataset.hidItemTypes[hex(tag)] ?? null,
+        value,
+        description: null,
+      };
+
+      if (tag === TAG.USAGE_PAGE) {
+        usagePage = value;
+        item.description = getHidUsagePageInData(dataset, value & 0xffff)?.name ?? null;
+      } else if (USAGE_TAGS.has(tag)) {
+        // 4-byte usages carry their own page in the high word
+        const page = size === 4 ? Math.floor(value / 0x10000) : usagePage;
+        Object.assign(item, describeUsage(dataset, page & 0xffff, value & 0xffff));
+      } else if (tag === TAG.COLLECTION) {
+        item.description = describeCollection(value);
+      } else if (tag === TAG.INPUT || tag === TAG.OUTPUT || tag === TAG.FEATURE) {
+        item.description = describeMainFlags(tag, value);
+      } else if (tag === TAG.PUSH) {
+        pageStack.push(usagePage);
+      } else if (tag === TAG.POP) {
+        usagePage = pageStack.pop() ?? usagePage;
+      }
+      offset = end;
+    }
+
+    itemCount++;
+    const tag = Number.parseInt(item.tag, 16);
+    if (item.kind === "main" && tag === TAG.END_COLLECTION && stack.length > 1) {
+      stack.pop();
+    }
+    stack[stack.length - 1].push(item);
+    if (item.kind === "main" && tag === TAG.COLLECTION) {
+      item.children = [];
+      stack.push(item.children);
+    }
+  }
+
+  const country =
+    options.countryCode === undefined
+      ? null
+      : {
+          code: options.countryCode,
+          name: getHidCountryInData(dataset, options.countryCode)?.name ?? null,
+        };
+
+  return { items: root, itemCount, byteLength: bytes.length, country };
+}
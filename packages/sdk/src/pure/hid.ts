@@ -0,0 +1,168 @@
+import type { HidUsagePage, UsbDatasetV2 } from "../types";
+import { ERROR_CODES, UsbApiError } from "../errors";
+
+/** HID codes may be given as numbers (`0x30`) or hex strings (`"30"`, `"0x30"`). */
+export type HidCode = number | string;
+
+export interface HidUsageMatch {
+  pageCode: string;
+  pageName: string;
+  usageCode: string | null;
+  /** Null when the usage ID is not listed under the page */
+  usageName: string | null;
+}
+
+/** A row of the flat `HID`, `R` or `HCC` tables. */
+export interface HidTableEntry {
+  code: string;
+  name: string;
+}
+
+export interface HidUsagePageSummary {
+  pageCode: string;
+  name: string;
+  usageCount: number;
+}
+
+function parseHidCode(code: HidCode, label: string): number {
+  const n =
+    typeof code === "number"
+      ? code
+      : /^(?:0x)?[0-9a-f]{1,4}$/i.test(code.trim())
+        ? Number.parseInt(code.trim().replace(/^0x/i, ""), 16)
+        : Number.NaN;
+  if (!Number.isInteger(n) || n < 0 || n > 0xffff) {
+    throw new UsbApiError(`Invalid HID ${label}: ${String(code)}`, ERROR_CODES.INVALID_PARAMETER);
+  }
+  return n;
+}
+
+/** usb.ids keys are zero-padded hex of varying width (`01`, `001`), so match by value. */
+function findKey(record: Record<string, unknown>, value: number): string | null {
+  for (const key of Object.keys(record)) {
+    if (Number.parseInt(key, 16) === value) return key;
+  }
+  return null;
+}
+
+function tableEntry(table: Record<string, string>, key: string | null): HidTableEntry | null {
+  const name = key === null ? undefined : table[key];
+  return key !== null && name !== undefined ? { code: key, name } : null;
+}
+
+/**
+ * Look up a HID class descriptor type (`HID` section, e.g. `0x22` Report) by code (pure function).
+ */
+export function getHidDescriptorTypeInData(
+  dataset: UsbDatasetV2,
+  type: HidCode,
+): HidTableEntry | null {
+  const table = dataset.hidDescriptors;
+  return tableEntry(table, findKey(table, parseHidCode(type, "descriptor type")));
+}
+
+/**
+ * Look up a report descriptor item by its prefix byte with the size bits cleared (`R` section,
+ * e.g. `0x80` Input) (pure function).
+ */
+export function getHidItemTypeInData(dataset: UsbDatasetV2, tag: HidCode): HidTableEntry | null {
+  const table = dataset.hidItemTypes;
+  return tableEntry(table, findKey(table, parseHidCode(tag, "item tag")));
+}
+
+/**
+ * Look up a HID `bCountryCode` (`HCC` section) (pure function). Country codes are decimal, so
+ * `"09"` and `9` name the same country.
+ */
+export function getHidCountryInData(
+  dataset: UsbDatasetV2,
+  country: number | string,
+): HidTableEntry | null {
+  const n =
+    typeof country === "number"
+      ? country
+      : /^\d{1,3}$/.test(country.trim())
+        ? Number.parseInt(country.trim(), 10)
+        : Number.NaN;
+  if (!Number.isInteger(n) || n < 0 || n > 0xff) {
+    throw new UsbApiError(
+      `Invalid HID country code: ${String(country)}`,
+      ERROR_CODES.INVALID_PARAMETER,
+    );
+  }
+  const table = dataset.hidCountryCodes;
+  const key = Object.keys(table).find((k) => Number.parseInt(k, 10) === n) ?? null;
+  return tableEntry(table, key);
+}
+
+/**
+ * Look up a HID usage page (`HUT` section) by code (pure function).
+ */
+export function getHidUsagePageInData(dataset: UsbDatasetV2, page: HidCode): HidUsagePage | null {
+  const key = findKey(dataset.hidUsagePages, parseHidCode(page, "usage page"));
+  return key ? (dataset.hidUsagePages[key] ?? null) : null;
+}
+
+/**
+ * Resolve usage page + usage ID to names; null when the page is unknown (pure function).
+ */
+export function getHidUsageInData(
+  dataset: UsbDatasetV2,
+  page: HidCode,
+  usage: HidCode,
+): HidUsageMatch | null {
+  const hidPage = getHidUsagePageInData(dataset, page);
+  if (!hidPage) return null;
+  const usageKey = findKey(hidPage.usages, parseHidCode(usage, "usage"));
+  return {
+    pageCode: hidPage.pageCode,
+    pageName: hidPage.name,
+    usageCode: usageKey,
+    usageName: usageKey ? (hidPage.usages[usageKey] ?? null) : null,
+  };
+}
+
+/**
+ * List HID usage pages in code order (pure function).
+ */
+export function listHidUsagePagesInData(dataset: UsbDatasetV2): HidUsagePageSummary[] {
+  return Object.values(dataset.hidUsagePages)
+    .map((p) => ({ pageCode: p.pageCode, name: p.name, usageCount: Object.keys(p.usages).length }))
+    .sort((a, b) => Number.parseInt(a.pageCode, 16) - Number.parseInt(b.pageCode, 16));
+}
+
+/**
+ * Search usage names across all pages; exact and prefix matches rank first (pure function).
+ */
+export function searchHidUsagesInData(dataset: UsbDatasetV2, query: string): HidUsageMatch[] {
+  const searchTerm = query.toLowerCase().trim();
+  if (!searchTerm) return [];
+
+  const results: Array<HidUsageMatch & { priority: number; order: number }> = [];
+  for (const page of Object.values(dataset.hidUsagePages)) {
+    for (const [usageCode, usageName] of Object.entries(page.usages)) {
+      const name = usageName.toLowerCase();
+      if (!name.includes(searchTerm)) continue;
+      let priority = 0;
+      if (name === searchTerm) priority += 100;
+      else if (name.startsWith(searchTerm)) priority += 50;
+      results.push({
+        pageCode: page.pageCode,
+        pageName: page.name,
+        usageCode,
+        usageName,
+        priority,
+        order: Number.parseInt(page.pageCode, 16) * 0x10000 + Number.parseInt(usageCode, 16),
+      });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.priority - a.priority || a.order - b.order)
+    .map(({ pageCode, pageName, usageCode, usageName }) => ({
+      pageCode,
+      pageName,
+      usageCode,
+      usageName,
+    }));
+}
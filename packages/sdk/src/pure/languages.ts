@@ -0,0 +1,95 @@
+import type { UsbDatasetV2 } from "../types";
+import { ERROR_CODES, UsbApiError } from "../errors";
+
+/** LANGIDs may be given as numbers (`0x0409`) or hex strings (`"0409"`, `"0x0409"`). */
+export type LangIdCode = number | string;
+
+export interface LangIdMatch {
+  /** Full 16-bit LANGID as 4-digit hex, e.g. `"0409"` */
+  langId: string;
+  /** Primary language ID (low 10 bits), keyed like the `L` section, e.g. `"0009"` */
+  primaryCode: string;
+  /** Sublanguage ID (high 6 bits), keyed like the `L` dialect lines, e.g. `"01"` */
+  sublanguageCode: string;
+  language: string | null;
+  /** Null for SUBLANG_NEUTRAL (`00`) or when the dialect is not listed */
+  sublanguage: string | null;
+  /** `"English (US)"`, the bare language name, or null when the primary language is unknown */
+  name: string | null;
+}
+
+function parseLangId(code: LangIdCode): number {
+  const n =
+    typeof code === "number"
+      ? code
+      : /^(?:0x)?[0-9a-f]{1,4}$/i.test(code.trim())
+        ? Number.parseInt(code.trim().replace(/^0x/i, ""), 16)
+        : Number.NaN;
+  if (!Number.isInteger(n) || n < 0 || n > 0xffff) {
+    throw new UsbApiError(`Invalid LANGID: ${String(code)}`, ERROR_CODES.INVALID_PARAMETER);
+  }
+  return n;
+}
+
+function toMatch(dataset: UsbDatasetV2, langId: number): LangIdMatch {
+  const primaryCode = (langId & 0x3ff).toString(16).padStart(4, "0");
+  const sublanguageCode = (langId >> 10).toString(16).padStart(2, "0");
+  const entry = dataset.languages[primaryCode];
+  const sublanguage = entry?.dialects?.[sublanguageCode] ?? null;
+  return {
+    langId: langId.toString(16).padStart(4, "0"),
+    primaryCode,
+    sublanguageCode,
+    language: entry?.name ?? null,
+    sublanguage,
+    name: entry ? (sublanguage ? `${entry.name} (${sublanguage})` : entry.name) : null,
+  };
+}
+
+/**
+ * Split a LANGID into primary language and sublanguage and name both from the `L` section
+ * (pure function).
+ */
+export function resolveLangIdInData(dataset: UsbDatasetV2, langId: LangIdCode): LangIdMatch {
+  return toMatch(dataset, parseLangId(langId));
+}
+
+/**
+ * Every LANGID the `L` section can name: each primary language (sublanguage `00`) followed by
+ * its dialects, in LANGID order per language.
+ */
+export function listLangIdsInData(dataset: UsbDatasetV2): LangIdMatch[] {
+  const results: LangIdMatch[] = [];
+  const primaries = Object.keys(dataset.languages).sort(
+    (a, b) => Number.parseInt(a, 16) - Number.parseInt(b, 16),
+  );
+  for (const primaryCode of primaries) {
+    const primary = Number.parseInt(primaryCode, 16) & 0x3ff;
+    results.push(toMatch(dataset, primary));
+    const dialects = Object.keys(dataset.languages[primaryCode].dialects ?? {})
+      .map((code) => Number.parseInt(code, 16))
+      .sort((a, b) => a - b);
+    for (const sub of dialects) results.push(toMatch(dataset, (sub << 10) | primary));
+  }
+  return results;
+}
+
+/**
+ * Reverse lookup by name (pure function). Exact matches on `"English (US)"`, `"English"` or the
+ * dialect name alone come first, followed by substring matches.
+ */
+export function findLangIdsInData(dataset: UsbDatasetV2, name: string): LangIdMatch[] {
+  const searchTerm = name.toLowerCase().trim();
+  if (!searchTerm) return [];
+
+  const exact: LangIdMatch[] = [];
+  const partial: LangIdMatch[] = [];
+  for (const match of listLangIdsInData(dataset)) {
+    const labels = [match.name, match.sublanguage]
+      .filter((label): label is string => label !== null)
+      .map((label) => label.toLowerCase());
+    if (labels.includes(searchTerm)) exact.push(match);
+    else if (labels.some((label) => label.includes(searchTerm))) partial.push(match);
+  }
+  return [...exact, ...partial];
+}
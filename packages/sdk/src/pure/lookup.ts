@@ -0,0 +1,40 @@
+import type { UsbDatasetV2, UsbDeviceV2, UsbVendorV2 } from "../types";
+
+const ID_PAIR = /^(?:0x)?([0-9a-f]{4})(?:[\s:]+(?:0x)?([0-9a-f]{4}))?$/i;
+
+export interface UsbIdPair {
+  vendorId: string;
+  deviceId: string | null;
+}
+
+export interface UsbIdLookup extends UsbIdPair {
+  vendor: UsbVendorV2 | null;
+  device: UsbDeviceV2 | null;
+}
+
+/**
+ * Parse `vvvv:pppp`, `vvvv pppp` or a bare `vvvv` (optional `0x` prefixes). Returns null when malformed.
+ */
+export function parseUsbIdPair(input: string): UsbIdPair | null {
+  const m = input.trim().match(ID_PAIR);
+  if (!m) return null;
+  return {
+    vendorId: m[1].toLowerCase(),
+    deviceId: m[2] ? m[2].toLowerCase() : null,
+  };
+}
+
+/**
+ * Resolve a vendor (and optional device) id against a schema v2 dataset (pure function).
+ */
+export function lookupInData(
+  dataset: UsbDatasetV2,
+  vendorId: string,
+  deviceId?: string | null,
+): UsbIdLookup {
+  const vid = vendorId.toLowerCase();
+  const did = deviceId ? deviceId.toLowerCase() : null;
+  const vendor = dataset.vendors[vid] ?? null;
+  const device = vendor && did ? (vendor.devices[did] ?? null) : null;
+  return { vendorId: vid, deviceId: did, vendor, device };
+}
@@ -0,0 +1,27 @@
+import type { LsusbDevice, LsusbInterface } from "../parser/lsusb";
+import type { UsbDatasetV2 } from "../types";
+import type { DecodedUsbClass } from "./classes";
+import { resolveUsbDeviceInData } from "./resolve-device";
+
+export interface DecodedLsusbInterface extends DecodedUsbClass {
+  number: LsusbInterface["number"];
+}
+
+export interface DecodedLsusbDevice extends Omit<LsusbDevice, "deviceClass" | "interfaces"> {
+  vendorName: string | null;
+  deviceName: string | null;
+  /** True when the vendor or product ID is not listed in `usb.ids` */
+  unknown: boolean;
+  deviceClass: DecodedUsbClass | null;
+  interfaces: DecodedLsusbInterface[];
+}
+
+/**
+ * Resolve parsed `lsusb` entries against a schema v2 dataset (pure function).
+ */
+export function resolveLsusbInData(
+  dataset: UsbDatasetV2,
+  devices: LsusbDevice[],
+): DecodedLsusbDevice[] {
+  return devices.map((entry) => ({ ...entry, ...resolveUsbDeviceInData(dataset, entry) }));
+}
@@ -0,0 +1,57 @@
+import type { UsbDatasetV2, UsbDeviceV2, UsbIdsData, UsbSubsystem, UsbVendorV2 } from "../types";
+import { toV2 } from "../legacy/to-v2";
+
+/**
+ * Merge overlay vendors, devices and subsystems on top of a dataset (pure function; inputs are
+ * not modified). Entries the overlay adds or renames get `origin: "local"`; repeating an upstream
+ * vendor or device with the same name only serves as a parent for local children. Overlays are
+ * applied in order, so later files win.
+ */
+export function mergeOverlaysInData(
+  dataset: UsbDatasetV2,
+  overlays: Array<UsbIdsData | UsbDatasetV2>,
+): UsbDatasetV2 {
+  if (overlays.length === 0) return dataset;
+  const vendors: Record<string, UsbVendorV2> = { ...dataset.vendors };
+
+  for (const overlay of overlays) {
+    for (const [vid, local] of Object.entries(toV2(overlay).vendors)) {
+      const base = vendors[vid];
+      const vendor: UsbVendorV2 = base
+        ? { ...base, devices: { ...base.devices } }
+        : { vendor: vid, name: local.name, devices: {}, origin: "local" };
+      if (base && local.name && local.name !== base.name) {
+        vendor.name = local.name;
+        vendor.origin = "local";
+      }
+
+      for (const [did, localDevice] of Object.entries(local.devices)) {
+        const baseDevice = vendor.devices[did];
+        const device: UsbDeviceV2 = baseDevice
+          ? { ...baseDevice }
+          : { devid: did, devname: localDevice.devname, origin: "local" };
+        if (baseDevice && localDevice.devname && localDevice.devname !== baseDevice.devname) {
+          device.devname = localDevice.devname;
+          device.origin = "local";
+        }
+        if (localDevice.subsystems?.length) {
+          device.subsystems = mergeSubsystems(device.subsystems ?? [], localDevice.subsystems);
+        }
+        vendor.devices[did] = device;
+      }
+      vendors[vid] = vendor;
+    }
+  }
+
+  return { ...dataset, vendors };
+}
+
+function mergeSubsystems(base: UsbSubsystem[], local: UsbSubsystem[]): UsbSubsystem[] {
+  const merged = [...base];
+  for (const s of local) {
+    const i = merged.findIndex((e) => e.subvendor === s.subvendor && e.subdevice === s.subdevice);
+    if (i === -1) merged.push({ ...s, origin: "local" });
+    else if (merged[i].name !== s.name) merged[i] = { ...merged[i], name: s.name, origin: "local" };
+  }
+  return merged;
+}
@@ -1,7 +1,12 @@
-import type { UsbDevice, UsbIdsData, UsbVendor } from "../types";
+import type { UsbDevice, UsbVendor } from "../types";
+import type { UsbIndex } from "./usb-index";
+import { findIndexCandidates, isUsbIndex } from "./usb-index";
 
 const VENDOR_OR_DEVICE_ID = /^[0-9a-f]{4}$/i;
 
+/** Device type of a vendor record (`UsbDevice` for v1 data, `UsbDeviceV2` for v2). */
+export type DeviceOf<V extends UsbVendor> = V["devices"][string];
+
 export type VendorFilter =
   | string
   | ((vendor: UsbVendor) => boolean)
@@ -20,117 +25,179 @@ export type DeviceFilter =
       search?: string;
     };
 
+interface IdNameFilter {
+  id?: string;
+  name?: string;
+  search?: string;
+}
+
+/** Object-filter check against a record's raw id and its lowercased id and name. */
+function matchesIdName(rawId: string, id: string, name: string, filter: IdNameFilter): boolean {
+  if (filter.id) {
+    if (VENDOR_OR_DEVICE_ID.test(filter.id)) {
+      if (rawId !== filter.id.toLowerCase()) return false;
+    } else if (!id.includes(filter.id.toLowerCase())) {
+      return false;
+    }
+  }
+  if (filter.name && !name.includes(filter.name.toLowerCase())) {
+    return false;
+  }
+  if (filter.search) {
+    const searchTerm = filter.search.toLowerCase();
+    return id.includes(searchTerm) || name.includes(searchTerm);
+  }
+  return true;
+}
+
+/**
+ * Sorted positions in the index list that may satisfy the filter, narrowed by its longest
+ * non-blank term; `null` when no term narrows the filter.
+ */
+function indexCandidates<V extends UsbVendor>(
+  index: UsbIndex<V>,
+  filter: IdNameFilter,
+  list: "vendors" | "devices",
+): number[] | null {
+  const term = [filter.id, filter.name, filter.search]
+    .map((t) => (t ?? "").toLowerCase())
+    .filter((t) => t.trim())
+    .reduce((a, b) => (b.length > a.length ? b : a), "");
+  if (!term) return null;
+  return [...findIndexCandidates(index, term)[list]].sort((a, b) => a - b);
+}
+
 /**
  * Filter vendor data (pure function). String filter: exact match for 4-digit hex vendor id; otherwise substring search on id/name.
+ * Accepts a `UsbIndex` in place of the data to answer string and object filters from its token index.
  */
-export function filterVendors(data: UsbIdsData, filter?: VendorFilter): UsbVendor[] {
+export function filterVendors<V extends UsbVendor>(
+  source: Record<string, V> | UsbIndex<V>,
+  filter?: VendorFilter,
+): V[] {
+  const index = isUsbIndex(source) ? source : null;
+  const data = index ? index.data : (source as Record<string, V>);
   const vendors = Object.values(data);
 
   if (!filter) {
     return vendors;
   }
 
-  if (typeof filter === "string") {
-    if (VENDOR_OR_DEVICE_ID.test(filter)) {
-      const v = data[filter.toLowerCase()];
-      return v ? [v] : [];
-    }
-    const searchTerm = filter.toLowerCase();
-    return vendors.filter(
-      (vendor) =>
-        vendor.vendor.toLowerCase().includes(searchTerm) ||
-        vendor.name.toLowerCase().includes(searchTerm),
-    );
-  }
-
   if (typeof filter === "function") {
     return vendors.filter(filter);
   }
 
-  return vendors.filter((vendor) => {
-    if (filter.id) {
-      if (VENDOR_OR_DEVICE_ID.test(filter.id)) {
-        if (vendor.vendor !== filter.id.toLowerCase()) return false;
-      } else if (!vendor.vendor.toLowerCase().includes(filter.id.toLowerCase())) {
-        return false;
-      }
-    }
-    if (filter.name && !vendor.name.toLowerCase().includes(filter.name.toLowerCase())) {
-      return false;
-    }
-    if (filter.search) {
-      const searchTerm = filter.search.toLowerCase();
-      return (
-        vendor.vendor.toLowerCase().includes(searchTerm) ||
-        vendor.name.toLowerCase().includes(searchTerm)
-      );
-    }
-    return true;
-  });
+  if (typeof filter === "string" && VENDOR_OR_DEVICE_ID.test(filter)) {
+    const v = data[filter.toLowerCase()];
+    return v ? [v] : [];
+  }
+
+  const idName = typeof filter === "string" ? { search: filter } : filter;
+  if (index) {
+    const positions = indexCandidates(index, idName, "vendors") ?? index.vendors.keys();
+    return [...positions]
+      .map((position) => index.vendors[position])
+      .filter((entry) => matchesIdName(entry.vendor.vendor, entry.id, entry.name, idName))
+      .map((entry) => entry.vendor);
+  }
+  return vendors.filter((vendor) =>
+    matchesIdName(vendor.vendor, vendor.vendor.toLowerCase(), vendor.name.toLowerCase(), idName),
+  );
 }
 
 /**
  * Filter device data (pure function). String filter: exact match for 4-digit hex product id; otherwise substring search.
+ * Accepts a `UsbIndex` in place of the vendor to filter the devices of `vendorId` (or of every
+ * vendor when omitted) from its token index.
  */
-export function filterDevices(vendor: UsbVendor, filter?: DeviceFilter): UsbDevice[] {
-  const devices = Object.values(vendor.devices);
+export function filterDevices<V extends UsbVendor>(
+  source: V | UsbIndex<V>,
+  filter?: DeviceFilter,
+  vendorId?: string,
+): Array<DeviceOf<V>> {
+  if (isUsbIndex(source)) return filterIndexedDevices(source, filter, vendorId);
+  const byId = source.devices as Record<string, DeviceOf<V>>;
+  const devices = Object.values(byId);
 
   if (!filter) {
     return devices;
   }
 
-  if (typeof filter === "string") {
-    if (VENDOR_OR_DEVICE_ID.test(filter)) {
-      const id = filter.toLowerCase();
-      const d = vendor.devices[id];
-      return d ? [d] : [];
-    }
-    const searchTerm = filter.toLowerCase();
-    return devices.filter(
-      (device) =>
-        device.devid.toLowerCase().includes(searchTerm) ||
-        device.devname.toLowerCase().includes(searchTerm),
-    );
+  if (typeof filter === "function") {
+    return devices.filter(filter);
+  }
+
+  if (typeof filter === "string" && VENDOR_OR_DEVICE_ID.test(filter)) {
+    const d = byId[filter.toLowerCase()];
+    return d ? [d] : [];
+  }
+
+  const idName = typeof filter === "string" ? { search: filter } : filter;
+  return devices.filter((device) =>
+    matchesIdName(device.devid, device.devid.toLowerCase(), device.devname.toLowerCase(), idName),
+  );
+}
+
+function filterIndexedDevices<V extends UsbVendor>(
+  index: UsbIndex<V>,
+  filter: DeviceFilter | undefined,
+  vendorId: string | undefined,
+): Array<DeviceOf<V>> {
+  let positions: number[] | null = null;
+  let vendorPosition: number | undefined;
+  if (vendorId !== undefined) {
+    vendorPosition = index.byVendorId.get(vendorId.toLowerCase());
+    if (vendorPosition === undefined) return [];
+    positions = index.vendors[vendorPosition].devices;
+  }
+  const entries = (list: Iterable<number>) => [...list].map((position) => index.devices[position]);
+  const all = () => entries(positions ?? index.devices.keys());
+
+  if (!filter) {
+    return all().map((entry) => entry.device);
   }
 
   if (typeof filter === "function") {
-    return devices.filter(filter);
+    return all()
+      .map((entry) => entry.device)
+      .filter(filter);
   }
 
-  return devices.filter((device) => {
-    if (filter.id) {
-      if (VENDOR_OR_DEVICE_ID.test(filter.id)) {
-        if (device.devid !== filter.id.toLowerCase()) return false;
-      } else if (!device.devid.toLowerCase().includes(filter.id.toLowerCase())) {
-        return false;
-      }
-    }
-    if (filter.name && !device.devname.toLowerCase().includes(filter.name.toLowerCase())) {
-      return false;
-    }
-    if (filter.search) {
-      const searchTerm = filter.search.toLowerCase();
-      return (
-        device.devid.toLowerCase().includes(searchTerm) ||
-        device.devname.toLowerCase().includes(searchTerm)
-      );
-    }
-    return true;
-  });
+  if (typeof filter === "string" && VENDOR_OR_DEVICE_ID.test(filter)) {
+    const id = filter.toLowerCase();
+    return all()
+      .filter((entry) => entry.device.devid === id)
+      .map((entry) => entry.device);
+  }
+
+  const idName = typeof filter === "string" ? { search: filter } : filter;
+  const candidates = indexCandidates(index, idName, "devices");
+  const narrowed = candidates
+    ? entries(candidates).filter(
+        (entry) => vendorPosition === undefined || entry.vendor === vendorPosition,
+      )
+    : all();
+  return narrowed
+    .filter((entry) => matchesIdName(entry.device.devid, entry.id, entry.name, idName))
+    .map((entry) => entry.device);
 }
 
 /**
- * Search for devices in data (pure function)
+ * Search for devices in data (pure function). Accepts v1 data or `UsbDatasetV2.vendors`; results
+ * keep the input's vendor/device types. A `UsbIndex` of the data gives the same results without
+ * scanning every entry.
  */
-export function searchInData(
-  data: UsbIdsData,
+export function searchInData<V extends UsbVendor>(
+  source: Record<string, V> | UsbIndex<V>,
   query: string,
-): Array<{ vendor: UsbVendor; device: UsbDevice }> {
+): Array<{ vendor: V; device: DeviceOf<V> }> {
   if (!query.trim()) {
     return [];
   }
+  if (isUsbIndex(source)) return searchInIndex(source, query.toLowerCase().trim());
+  const data = source;
 
-  const results: Array<{ vendor: UsbVendor; device: UsbDevice; priority: number }> = [];
+  const results: Array<{ vendor: V; device: DeviceOf<V>; priority: number }> = [];
   const searchTerm = query.toLowerCase().trim();
 
   Object.values(data).forEach((vendor) => {
@@ -138,7 +205,7 @@ export function searchInData(
       vendor.name.toLowerCase().includes(searchTerm) ||
       vendor.vendor.toLowerCase().includes(searchTerm);
 
-    Object.values(vendor.devices).forEach((device) => {
+    Object.values(vendor.devices as Record<string, DeviceOf<V>>).forEach((device) => {
       const deviceIdMatch = device.devid.toLowerCase().includes(searchTerm);
       const deviceNameMatch = device.devname.toLowerCase().includes(searchTerm);
 
@@ -158,3 +225,38 @@ export function searchInData(
     .sort((a, b) => b.priority - a.priority)
     .map(({ vendor, device }) => ({ vendor, device }));
 }
+
+function searchInIndex<V extends UsbVendor>(
+  index: UsbIndex<V>,
+  searchTerm: string,
+): Array<{ vendor: V; device: DeviceOf<V> }> {
+  const candidates = findIndexCandidates(index, searchTerm);
+  const matchedVendors = new Set<number>();
+  for (const position of candidates.vendors) {
+    const { id, name, devices } = index.vendors[position];
+    if (!id.includes(searchTerm) && !name.includes(searchTerm)) continue;
+    matchedVendors.add(position);
+    for (const device of devices) candidates.devices.add(device);
+  }
+
+  const results: Array<{ vendor: V; device: DeviceOf<V>; priority: number }> = [];
+  // Positions follow the data's vendor/device order, like the scan in `searchInData`
+  for (const position of [...candidates.devices].sort((a, b) => a - b)) {
+    const { id, name, device, vendor } = index.devices[position];
+    const deviceIdMatch = id.includes(searchTerm);
+    const deviceNameMatch = name.includes(searchTerm);
+    const vendorMatch = matchedVendors.has(vendor);
+    if (!deviceIdMatch && !deviceNameMatch && !vendorMatch) continue;
+
+    let priority = 0;
+    if (id === searchTerm) priority += 100;
+    else if (deviceIdMatch) priority += 50;
+    if (deviceNameMatch) priority += 30;
+    if (vendorMatch) priority += 10;
+    results.push({ vendor: index.vendors[vendor].vendor, device, priority });
+  }
+
+  return results
+    .sort((a, b) => b.priority - a.priority)
+    .map(({ vendor, device }) => ({ vendor, device }));
+}
@@ -0,0 +1,42 @@
+import type { UsbClassTriplet, UsbDatasetV2 } from "../types";
+import type { DecodedUsbClass } from "./classes";
+import { decodeClassInData } from "./classes";
+
+/** What `lsusb` dumps and sysfs scans both report for an attached device. */
+export interface ReportedUsbDevice<I extends UsbClassTriplet> {
+  vendorId: string;
+  productId: string;
+  deviceClass: UsbClassTriplet | null;
+  interfaces: I[];
+}
+
+export interface ResolvedUsbDevice<I> {
+  vendorName: string | null;
+  deviceName: string | null;
+  /** True when the vendor or product ID is not listed in `usb.ids` */
+  unknown: boolean;
+  deviceClass: DecodedUsbClass | null;
+  /** Decoded classes, keeping each interface's other fields */
+  interfaces: Array<DecodedUsbClass & I>;
+}
+
+/**
+ * Name a reported device and decode its device and interface classes (pure function).
+ */
+export function resolveUsbDeviceInData<I extends UsbClassTriplet>(
+  dataset: UsbDatasetV2,
+  entry: ReportedUsbDevice<I>,
+): ResolvedUsbDevice<Omit<I, keyof UsbClassTriplet>> {
+  const vendor = dataset.vendors[entry.vendorId];
+  const device = vendor?.devices[entry.productId];
+  return {
+    vendorName: vendor?.name ?? null,
+    deviceName: device?.devname ?? null,
+    unknown: !vendor || !device,
+    deviceClass: entry.deviceClass ? decodeClassInData(dataset, entry.deviceClass) : null,
+    interfaces: entry.interfaces.map(({ classCode, subclassCode, protocolCode, ...rest }) => ({
+      ...decodeClassInData(dataset, { classCode, subclassCode, protocolCode }),
+      ...rest,
+    })),
+  };
+}
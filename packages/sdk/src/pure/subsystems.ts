@@ -0,0 +1,109 @@
+import type { UsbDatasetV2 } from "../types";
+import { ERROR_CODES, UsbApiError } from "../errors";
+
+const USB_ID = /^[0-9a-f]{4}$/i;
+
+/** A subsystem line together with the parent device it is listed under. */
+export interface UsbSubsystemRef {
+  vendorId: string;
+  vendorName: string;
+  deviceId: string;
+  deviceName: string;
+  subvendor: string;
+  subdevice: string;
+  /** Subsystem name from `usb.ids` */
+  name: string;
+}
+
+/**
+ * Reverse index from subsystem IDs to the devices listing them. Build once per dataset with
+ * `buildSubsystemIndex` and reuse it for repeated queries.
+ */
+export interface UsbSubsystemIndex {
+  /** Keyed by `svid:sdid` */
+  bySubsystem: Map<string, UsbSubsystemRef[]>;
+  /** Keyed by `svid` */
+  bySubvendor: Map<string, UsbSubsystemRef[]>;
+}
+
+function normalizeId(id: string, label: string): string {
+  if (!USB_ID.test(id)) {
+    throw new UsbApiError(`Invalid ${label} ID: ${id}`, ERROR_CODES.INVALID_PARAMETER);
+  }
+  return id.toLowerCase();
+}
+
+function push<K>(map: Map<K, UsbSubsystemRef[]>, key: K, ref: UsbSubsystemRef): void {
+  const list = map.get(key);
+  if (list) list.push(ref);
+  else map.set(key, [ref]);
+}
+
+/**
+ * Index every subsystem line of the dataset by subvendor and subvendor:subdevice (pure function).
+ */
+export function buildSubsystemIndex(dataset: UsbDatasetV2): UsbSubsystemIndex {
+  const index: UsbSubsystemIndex = { bySubsystem: new Map(), bySubvendor: new Map() };
+  for (const vendor of Object.values(dataset.vendors)) {
+    for (const device of Object.values(vendor.devices)) {
+      for (const s of device.subsystems ?? []) {
+        const ref: UsbSubsystemRef = {
+          vendorId: vendor.vendor,
+          vendorName: vendor.name,
+          deviceId: device.devid,
+          deviceName: device.devname,
+          subvendor: s.subvendor,
+          subdevice: s.subdevice,
+          name: s.name,
+        };
+        push(index.bySubsystem, `${s.subvendor}:${s.subdevice}`, ref);
+        push(index.bySubvendor, s.subvendor, ref);
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * Devices that list subsystem `subvendor[:subdevice]`, in dataset order (pure function).
+ */
+export function findSubsystemDevices(
+  index: UsbSubsystemIndex,
+  subvendor: string,
+  subdevice?: string,
+): UsbSubsystemRef[] {
+  const svid = normalizeId(subvendor, "subvendor");
+  if (subdevice === undefined) return index.bySubvendor.get(svid) ?? [];
+  const sdid = normalizeId(subdevice, "subdevice");
+  return index.bySubsystem.get(`${svid}:${sdid}`) ?? [];
+}
+
+/**
+ * Subsystem entry for parent `vendorId:deviceId` + `subvendor:subdevice`; null when the parent
+ * does not list it (pure function).
+ */
+export function getSubsystemInData(
+  dataset: UsbDatasetV2,
+  vendorId: string,
+  deviceId: string,
+  subvendor: string,
+  subdevice: string,
+): UsbSubsystemRef | null {
+  const vid = normalizeId(vendorId, "vendor");
+  const pid = normalizeId(deviceId, "device");
+  const svid = normalizeId(subvendor, "subvendor");
+  const sdid = normalizeId(subdevice, "subdevice");
+  const vendor = dataset.vendors[vid];
+  const device = vendor?.devices[pid];
+  const s = device?.subsystems?.find((e) => e.subvendor === svid && e.subdevice === sdid);
+  if (!vendor || !device || !s) return null;
+  return {
+    vendorId: vendor.vendor,
+    vendorName: vendor.name,
+    deviceId: device.devid,
+    deviceName: device.devname,
+    subvendor: s.subvendor,
+    subdevice: s.subdevice,
+    name: s.name,
+  };
+}
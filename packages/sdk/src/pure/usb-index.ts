@@ -0,0 +1,169 @@
+import type { UsbVendor } from "../types";
+import type { DeviceOf } from "./query";
+
+/** Longest substring kept in `UsbIndex.grams`; longer pieces are narrowed by their grams. */
+const GRAM_LENGTH = 3;
+
+export interface UsbIndexedVendor<V extends UsbVendor = UsbVendor> {
+  vendor: V;
+  /** Lowercased vendor id and name */
+  id: string;
+  name: string;
+  /** Positions of this vendor's devices in `UsbIndex.devices` */
+  devices: number[];
+}
+
+export interface UsbIndexedDevice<V extends UsbVendor = UsbVendor> {
+  /** Position of the parent vendor in `UsbIndex.vendors` */
+  vendor: number;
+  device: DeviceOf<V>;
+  /** Lowercased device id and name */
+  id: string;
+  name: string;
+}
+
+/** Vendors and devices whose id or name contains a token, as positions in the index lists. */
+export interface UsbIndexPostings {
+  vendors: number[];
+  devices: number[];
+}
+
+/**
+ * Lookup structures over a vendor map (v1 data or `UsbDatasetV2.vendors`), built once with
+ * `buildUsbIndex` and passed to `filterVendors` / `filterDevices` / `searchInData` in place of
+ * the data. Vendors and devices keep the data's iteration order, so results match a scan of the
+ * raw data.
+ */
+export interface UsbIndex<V extends UsbVendor = UsbVendor> {
+  data: Record<string, V>;
+  vendors: Array<UsbIndexedVendor<V>>;
+  /** Positions in `vendors`, keyed by lowercased vendor id */
+  byVendorId: Map<string, number>;
+  devices: Array<UsbIndexedDevice<V>>;
+  /** Keyed by lowercased `vvvv:pppp` */
+  byVidPid: Map<string, { vendor: V; device: DeviceOf<V> }>;
+  /** Whitespace-separated lowercased tokens of every id and name */
+  tokens: Map<string, UsbIndexPostings>;
+  /** Every substring of up to 3 characters of a token, mapped to the tokens containing it */
+  grams: Map<string, string[]>;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Index a vendor map for repeated queries (pure function). The index holds references to the
+ * data's records; rebuild it when the data changes.
+ */
+export function buildUsbIndex<V extends UsbVendor>(data: Record<string, V>): UsbIndex<V> {
+  const index: UsbIndex<V> = {
+    data,
+    vendors: [],
+    byVendorId: new Map(),
+    devices: [],
+    byVidPid: new Map(),
+    tokens: new Map(),
+    grams: new Map(),
+  };
+  const post = (text: string, list: "vendors" | "devices", position: number) => {
+    for (const token of tokenize(text)) {
+      let postings = index.tokens.get(token);
+      if (!postings) {
+        postings = { vendors: [], devices: [] };
+        index.tokens.set(token, postings);
+        for (let length = 1; length <= GRAM_LENGTH; length++) {
+          for (let i = 0; i + length <= token.length; i++) {
+            const gram = token.slice(i, i + length);
+            const tokens = index.grams.get(gram);
+            if (!tokens) index.grams.set(gram, [token]);
+            else if (tokens[tokens.length - 1] !== token) tokens.push(token);
+          }
+        }
+      }
+      const positions = postings[list];
+      if (positions[positions.length - 1] !== position) positions.push(position);
+    }
+  };
+
+  for (const vendor of Object.values(data)) {
+    const vendorPosition = index.vendors.length;
+    const entry: UsbIndexedVendor<V> = {
+      vendor,
+      id: vendor.vendor.toLowerCase(),
+      name: vendor.name.toLowerCase(),
+      devices: [],
+    };
+    index.vendors.push(entry);
+    index.byVendorId.set(entry.id, vendorPosition);
+    post(`${entry.id} ${entry.name}`, "vendors", vendorPosition);
+
+    for (const device of Object.values(vendor.devices as Record<string, DeviceOf<V>>)) {
+      const devicePosition = index.devices.length;
+      const indexed: UsbIndexedDevice<V> = {
+        vendor: vendorPosition,
+        device,
+        id: device.devid.toLowerCase(),
+        name: device.devname.toLowerCase(),
+      };
+      index.devices.push(indexed);
+      entry.devices.push(devicePosition);
+      index.byVidPid.set(`${entry.id}:${indexed.id}`, { vendor, device });
+      post(`${indexed.id} ${indexed.name}`, "devices", devicePosition);
+    }
+  }
+  return index;
+}
+
+/** Tell a `UsbIndex` apart from a vendor map or a single vendor. */
+export function isUsbIndex<V extends UsbVendor>(
+  source: Record<string, V> | V | UsbIndex<V>,
+): source is UsbIndex<V> {
+  return (source as Partial<UsbIndex<V>>).byVidPid instanceof Map;
+}
+
+/** Tokens containing `piece`, which must not contain whitespace. */
+function tokensContaining(index: UsbIndex<UsbVendor>, piece: string): string[] {
+  if (piece.length <= GRAM_LENGTH) {
+    return index.grams.get(piece) ?? [];
+  }
+  let narrowest: string[] | undefined;
+  for (let i = 0; i + GRAM_LENGTH <= piece.length; i++) {
+    const tokens = index.grams.get(piece.slice(i, i + GRAM_LENGTH));
+    if (!tokens) return [];
+    if (!narrowest || tokens.length < narrowest.length) narrowest = tokens;
+  }
+  return (narrowest ?? []).filter((token) => token.includes(piece));
+}
+
+/**
+ * Vendors and devices that may contain `term` (lowercased, trimmed) in their id or name: every
+ * match holds the term's longest whitespace-free piece inside one token. Callers confirm with
+ * `includes`.
+ */
+export function findIndexCandidates<V extends UsbVendor>(
+  index: UsbIndex<V>,
+  term: string,
+): { vendors: Set<number>; devices: Set<number> } {
+  const piece = tokenize(term).reduce((a, b) => (b.length > a.length ? b : a), "");
+  const vendors = new Set<number>();
+  const devices = new Set<number>();
+  for (const token of tokensContaining(index, piece)) {
+    const postings = index.tokens.get(token);
+    if (!postings) continue;
+    for (const position of postings.vendors) vendors.add(position);
+    for (const position of postings.devices) devices.add(position);
+  }
+  return { vendors, devices };
+}
+
+/**
+ * Resolve `vvvv:pppp` through the index (pure function); ids are case-insensitive.
+ */
+export function getInIndex<V extends UsbVendor>(
+  index: UsbIndex<V>,
+  vendorId: string,
+  deviceId: string,
+): { vendor: V; device: DeviceOf<V> } | null {
+  return index.byVidPid.get(`${vendorId}:${deviceId}`.toLowerCase()) ?? null;
+}
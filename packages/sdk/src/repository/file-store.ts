@@ -1,14 +1,157 @@
-import type { UsbDatasetV2, UsbIdsData, VersionInfo } from "../types";
+import type { UsbDatasetV2, UsbIdsChangelogEntry, UsbIdsData, VersionInfo } from "../types";
 import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseUsbIdsFull } from "../parser/full-usb-ids";
 import { normalizeVersionInfo } from "../version-manifest";
 
+/** A file to replace as part of `commitFiles`. */
+export interface PendingFile {
+  filePath: string;
+  content: string;
+}
+
+let tempCounter = 0;
+
+function siblingPath(filePath: string, suffix: string): string {
+  return `${filePath}.${suffix}-${process.pid}-${++tempCounter}`;
+}
+
+/** Write and fsync a temp file next to `filePath`, so a crash never leaves a truncated target. */
+function writeTempFile(filePath: string, content: string): string {
+  const tempPath = siblingPath(filePath, "tmp");
+  const fd = fs.openSync(tempPath, "w");
+  try {
+    fs.writeFileSync(fd, content, "utf8");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  return tempPath;
+}
+
+/** Persist renames; not every platform can open a directory, so failures are ignored. */
+function syncDirectory(dirPath: string): void {
+  try {
+    const fd = fs.openSync(dirPath, "r");
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // best effort
+  }
+}
+
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = writeTempFile(filePath, content);
+  try {
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  syncDirectory(path.dirname(filePath));
+}
+
+function jsonContent(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
 function writeJsonFile(value: unknown, filePath: string): void {
-  fs.writeFileSync(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+  writeFileAtomic(filePath, jsonContent(value));
+}
+
+export function pendingJsonFile(value: unknown, filePath: string): PendingFile {
+  return { filePath, content: jsonContent(value) };
+}
+
+/**
+ * Replace several files as one unit: every file is staged and fsynced first, then renamed over
+ * its target. If any step fails, targets already replaced are restored from backups and the
+ * error is rethrown, so readers never see a new manifest next to old data (or the reverse).
+ */
+export async function commitFiles(files: PendingFile[]): Promise<void> {
+  const staged: { target: string; temp: string; backup: string | null; replaced: boolean }[] = [];
+  try {
+    for (const file of files) {
+      staged.push({
+        target: file.filePath,
+        temp: writeTempFile(file.filePath, file.content),
+        backup: null,
+        replaced: false,
+      });
+    }
+    for (const entry of staged) {
+      if (fs.existsSync(entry.target)) {
+        entry.backup = siblingPath(entry.target, "bak");
+        fs.renameSync(entry.target, entry.backup);
+      }
+      fs.renameSync(entry.temp, entry.target);
+      entry.replaced = true;
+    }
+  } catch (error) {
+    for (const entry of [...staged].reverse()) {
+      try {
+        if (entry.replaced) fs.rmSync(entry.target, { force: true });
+        if (entry.backup && fs.existsSync(entry.backup)) fs.renameSync(entry.backup, entry.target);
+        fs.rmSync(entry.temp, { force: true });
+      } catch {
+        // keep restoring the remaining files
+      }
+    }
+    throw new Error(`Failed to write data files: ${(error as Error).message}`);
+  }
+  for (const entry of staged) {
+    if (entry.backup) fs.rmSync(entry.backup, { force: true });
+  }
+  for (const dir of new Set(staged.map((entry) => path.dirname(entry.target)))) {
+    syncDirectory(dir);
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Take an exclusive lock by creating `lockPath` (holding the owner's pid); returns the release
+ * function. A lock left behind by a process that no longer exists is taken over.
+ */
+export function acquireFileLock(lockPath: string): () => void {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(lockPath, `${process.pid}\n`, { flag: "wx" });
+      return () => fs.rmSync(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    let owner: number;
+    try {
+      owner = Number.parseInt(fs.readFileSync(lockPath, "utf8"), 10);
+    } catch {
+      continue; // released in the meantime
+    }
+    // An unreadable pid may belong to a lock still being written; only a dead owner is stale
+    if (!Number.isInteger(owner) || owner <= 0 || isProcessAlive(owner)) {
+      const holder = Number.isInteger(owner) ? `running process ${owner}` : "another process";
+      throw new Error(
+        `Lock file ${lockPath} is held by ${holder}; delete it if no fetch is running`,
+      );
+    }
+    fs.rmSync(lockPath, { force: true });
+  }
+  throw new Error(`Could not acquire lock file ${lockPath}`);
 }
 
 export async function saveRawUsbIdsFile(content: string, filePath: string): Promise<void> {
   try {
-    fs.writeFileSync(filePath, content, "utf8");
+    writeFileAtomic(filePath, content);
   } catch (error) {
     throw new Error(`Failed to save raw usb.ids: ${(error as Error).message}`);
   }
@@ -33,6 +176,17 @@ export async function saveVersionInfo(versionInfo: VersionInfo, filePath: string
   }
 }
 
+export async function appendChangelogEntry(
+  entry: UsbIdsChangelogEntry,
+  filePath: string,
+): Promise<void> {
+  try {
+    writeJsonFile([...loadChangelog(filePath), entry], filePath);
+  } catch (error) {
+    throw new Error(`Failed to save changelog file: ${(error as Error).message}`);
+  }
+}
+
 export function loadJsonFile<T>(filePath: string): T | null {
   try {
     if (!fs.existsSync(filePath)) {
@@ -49,3 +203,25 @@ export function loadVersionInfo(filePath: string): VersionInfo | null {
   const raw = loadJsonFile<unknown>(filePath);
   return normalizeVersionInfo(raw);
 }
+
+/** Entries of `usb.ids.changelog.json`, oldest first; empty when the file is missing or unreadable. */
+export function loadChangelog(filePath: string): UsbIdsChangelogEntry[] {
+  const raw = loadJsonFile<unknown>(filePath);
+  return Array.isArray(raw) ? (raw as UsbIdsChangelogEntry[]) : [];
+}
+
+/** Read an overlay file in `usb.ids` syntax or as a v1/v2 JSON export (detected by a leading `{`). */
+export function loadOverlayFile(filePath: string): UsbDatasetV2 | UsbIdsData {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new Error(`Failed to read overlay file ${filePath}: ${(error as Error).message}`);
+  }
+  if (!content.trimStart().startsWith("{")) return parseUsbIdsFull(content);
+  try {
+    return JSON.parse(content) as UsbDatasetV2 | UsbIdsData;
+  } catch (error) {
+    throw new Error(`Invalid overlay JSON in ${filePath}: ${(error as Error).message}`);
+  }
+}
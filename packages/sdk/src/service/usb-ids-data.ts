@@ -1,11 +1,41 @@
-import type { UsbDatasetV2, UsbIdsData, VersionInfo } from "../types";
+import type { ConditionalDownload, FetcherOptions, SourceReport } from "../fetcher";
+import type {
+  HttpValidators,
+  UsbDatasetV2,
+  UsbIdsChangelogEntry,
+  UsbIdsData,
+  VersionInfo,
+} from "../types";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { USB_IDS_FILE, USB_IDS_VERSION_JSON_FILE } from "../config";
-import { downloadFromUrls } from "../fetcher";
-import { isDatasetV2 } from "../legacy/to-v1";
-import { createVersionInfo, generateContentHash, parseUsbIdsFull } from "../parser";
-import { loadVersionInfo, saveRawUsbIdsFile, saveVersionInfo } from "../repository/file-store";
+import {
+  USB_IDS_CHANGELOG_JSON_FILE,
+  USB_IDS_FILE,
+  USB_IDS_LOCK_FILE,
+  USB_IDS_VERSION_JSON_FILE,
+} from "../config";
+import { ERROR_CODES, UsbApiError } from "../errors";
+import { downloadFromUrlsConditional } from "../fetcher";
+import { isDatasetV2, toV1 } from "../legacy/to-v1";
+import { toV2 } from "../legacy/to-v2";
+import {
+  createVersionInfo,
+  generateContentHash,
+  parseUsbIdsFull,
+  parseUsbIdsHeader,
+} from "../parser";
+import { formatDateTime } from "../parser/datetime";
+import { countDatasetChanges, diffDatasets } from "../pure/diff";
+import { mergeOverlaysInData } from "../pure/overlay";
+import {
+  acquireFileLock,
+  commitFiles,
+  loadChangelog,
+  loadOverlayFile,
+  loadVersionInfo,
+  pendingJsonFile,
+  saveVersionInfo,
+} from "../repository/file-store";
 import {
   getUpstreamHashFromManifest,
   readCurrentReleaseVersion,
@@ -22,82 +52,249 @@ function readFallbackDataset(fallbackPath: string): {
   return { data: parsed as UsbIdsData, rawText };
 }
 
+/**
+ * Summarize what a download changed relative to the dataset it replaces. The previous JSON is
+ * read before it is overwritten; without one every entry counts as added.
+ */
+function createChangelogEntry(
+  previous: VersionInfo,
+  previousPath: string,
+  data: UsbDatasetV2 | UsbIdsData,
+  versionInfo: VersionInfo,
+): UsbIdsChangelogEntry {
+  const before = fs.existsSync(previousPath) ? readFallbackDataset(previousPath).data : {};
+  const counts = countDatasetChanges(diffDatasets(before, data));
+  return {
+    time: versionInfo.buildTime,
+    timeFormatted: formatDateTime(versionInfo.buildTime),
+    fromUpstreamVersion: previous.upstreamVersion,
+    toUpstreamVersion: versionInfo.upstreamVersion,
+    releaseVersion: versionInfo.releaseVersion,
+    vendors: counts.vendors,
+    devices: counts.devices,
+    previous,
+  };
+}
+
+function applyOverlays(
+  data: UsbDatasetV2 | UsbIdsData,
+  overlayFiles: string[],
+): UsbDatasetV2 | UsbIdsData {
+  if (overlayFiles.length === 0) return data;
+  const merged = mergeOverlaysInData(toV2(data), overlayFiles.map(loadOverlayFile));
+  return isDatasetV2(data) ? merged : toV1(merged);
+}
+
+/** Record the validators a source returned; sources without any are dropped. */
+function withSourceValidators(
+  info: VersionInfo,
+  url: string,
+  validators: HttpValidators,
+): VersionInfo {
+  const { sourceValidators: previous, ...rest } = info;
+  const sourceValidators = { ...previous };
+  delete sourceValidators[url];
+  if (validators.etag || validators.lastModified) sourceValidators[url] = validators;
+  return Object.keys(sourceValidators).length > 0 ? { ...rest, sourceValidators } : rest;
+}
+
+export interface FetchUsbIdsDataOptions {
+  /** Download even when a 304 or an unchanged hash would let the local dataset be reused */
+  forceUpdate?: boolean;
+  /** `usb.ids`-syntax or JSON files merged into the returned dataset, resolved against `root` */
+  overlayFiles?: string[];
+  /** Transport: custom fetch, headers, timeout/retries, logger, mirror strategy */
+  fetcher?: FetcherOptions;
+  /** Accept content whose `# Version:` is older than the manifest's `upstreamVersion` */
+  allowDowngrade?: boolean;
+  /** Where the parsed JSON dataset is written and read back (default: `fallbackFile`) */
+  dataFile?: string;
+}
+
 /**
  * Fetch or load USB ID data (single orchestration entry for core/CLI/API).
+ * Sources answering with `ETag`/`Last-Modified` are queried conditionally next time; a 304
+ * returns the local dataset without downloading or parsing `usb.ids`.
+ * Overlays are merged into the returned dataset; the version manifest keeps describing upstream
+ * data only. `sourceReports` describes what each queried URL returned. Older upstream content
+ * is refused with `DOWNGRADE_REFUSED` unless `allowDowngrade` is set.
+ * `usb.ids`, the parsed JSON dataset at `dataFile`, the manifest and the changelog are replaced
+ * together (see `commitFiles`) while `usb.ids.lock` keeps concurrent fetches out. `dataFile` is
+ * also the local dataset served on a 304 or an unchanged hash; `fallbackFile` is only read when
+ * no source answers.
  */
 export async function fetchUsbIdsData(
   usbIdsUrls: string[],
   fallbackFile: string,
   root: string,
-  forceUpdate = false,
+  options: FetchUsbIdsDataOptions = {},
 ): Promise<{
   data: UsbDatasetV2 | UsbIdsData;
   source: "api" | "fallback";
   versionInfo: VersionInfo;
+  /** Set when downloaded content replaced a dataset with a different upstream hash */
+  changelogEntry: UsbIdsChangelogEntry | null;
+  /** True when the source answered 304 Not Modified */
+  notModified: boolean;
+  /** One entry per queried URL; empty when no URL was queried */
+  sourceReports: SourceReport[];
 }> {
+  const {
+    forceUpdate = false,
+    overlayFiles = [],
+    fetcher: fetcherOptions = {},
+    allowDowngrade = false,
+    dataFile = fallbackFile,
+  } = options;
   const versionFilePath = path.resolve(root, USB_IDS_VERSION_JSON_FILE);
+  const overlayPaths = overlayFiles.map((file) => path.resolve(root, file));
+  const fallbackPath = path.resolve(root, fallbackFile);
+  const dataPath = path.resolve(root, dataFile);
 
+  let releaseLock: (() => void) | null = null;
   try {
+    releaseLock = acquireFileLock(path.resolve(root, USB_IDS_LOCK_FILE));
     const existingVersion = loadVersionInfo(versionFilePath);
+    // Only ask for a 304 when the local dataset can be served in its place
+    const canReuseLocal = Boolean(existingVersion) && !forceUpdate && fs.existsSync(dataPath);
 
-    let usbIdsContent: string | null = null;
-
+    const sourceReports: SourceReport[] = [];
+    let download: ConditionalDownload | null = null;
     try {
-      usbIdsContent = await downloadFromUrls(usbIdsUrls);
+      download = await downloadFromUrlsConditional(
+        usbIdsUrls,
+        canReuseLocal ? existingVersion?.sourceValidators : {},
+        {
+          // Prefer mirrors that are not behind the local dataset
+          currentVersion: existingVersion?.upstreamVersion,
+          ...fetcherOptions,
+          onSourceReport: (report) => {
+            sourceReports.push(report);
+            fetcherOptions.onSourceReport?.(report);
+          },
+        },
+      );
     } catch {
-      usbIdsContent = null;
+      download = null;
+    }
+
+    if (download?.notModified && existingVersion) {
+      const { data } = readFallbackDataset(dataPath);
+      return {
+        data: applyOverlays(data, overlayPaths),
+        source: "fallback",
+        versionInfo: existingVersion,
+        changelogEntry: null,
+        notModified: true,
+        sourceReports,
+      };
     }
+    const downloaded = download && !download.notModified ? download : null;
 
     let data: UsbDatasetV2 | UsbIdsData;
     let source: "api" | "fallback";
     let rawContent: string;
 
-    if (usbIdsContent) {
-      if (existingVersion && !forceUpdate) {
-        const newHash = generateContentHash(usbIdsContent);
+    if (downloaded) {
+      const incomingVersion = parseUsbIdsHeader(downloaded.content).version;
+      if (
+        !allowDowngrade &&
+        existingVersion &&
+        incomingVersion &&
+        incomingVersion < existingVersion.upstreamVersion
+      ) {
+        throw new UsbApiError(
+          `Refusing to replace upstream ${existingVersion.upstreamVersion} with older ${incomingVersion} from ${downloaded.url} (allow downgrades to accept it)`,
+          ERROR_CODES.DOWNGRADE_REFUSED,
+        );
+      }
+      if (existingVersion && canReuseLocal) {
+        const newHash = generateContentHash(downloaded.content);
         if (newHash === getUpstreamHashFromManifest(existingVersion)) {
-          const fallbackPath = path.resolve(root, fallbackFile);
-          if (fs.existsSync(fallbackPath)) {
-            const { data } = readFallbackDataset(fallbackPath);
-            return { data, source: "fallback", versionInfo: existingVersion };
+          const { data } = readFallbackDataset(dataPath);
+          // Keep the manifest as is, apart from validators to send next time
+          const versionInfo = withSourceValidators(
+            existingVersion,
+            downloaded.url,
+            downloaded.validators,
+          );
+          if (JSON.stringify(versionInfo) !== JSON.stringify(existingVersion)) {
+            await saveVersionInfo(versionInfo, versionFilePath);
           }
+          return {
+            data: applyOverlays(data, overlayPaths),
+            source: "fallback",
+            versionInfo,
+            changelogEntry: null,
+            notModified: false,
+            sourceReports,
+          };
         }
       }
 
-      const rawFilePath = path.resolve(root, USB_IDS_FILE);
-      await saveRawUsbIdsFile(usbIdsContent, rawFilePath);
-
-      data = parseUsbIdsFull(usbIdsContent);
+      data = downloaded.dataset ?? parseUsbIdsFull(downloaded.content);
       source = "api";
-      rawContent = usbIdsContent;
+      rawContent = downloaded.content;
+    } else if (fs.existsSync(fallbackPath)) {
+      const { data: fbData, rawText } = readFallbackDataset(fallbackPath);
+      data = fbData;
+      source = "fallback";
+      rawContent = rawText;
     } else {
-      const fallbackPath = path.resolve(root, fallbackFile);
-      if (fs.existsSync(fallbackPath)) {
-        const { data: fbData, rawText } = readFallbackDataset(fallbackPath);
-        data = fbData;
-        source = "fallback";
-        rawContent = rawText;
-      } else {
-        throw new Error("Unable to fetch USB IDs and no local fallback file exists");
-      }
+      throw new Error("Unable to fetch USB IDs and no local fallback file exists");
     }
 
     const currentReleaseVersion = readCurrentReleaseVersion(root, existingVersion);
-    const up = resolveUpstreamMeta(rawContent, existingVersion, Boolean(usbIdsContent));
-    const versionInfo = createVersionInfo(
+    const up = resolveUpstreamMeta(rawContent, existingVersion, Boolean(downloaded));
+    let versionInfo = createVersionInfo(
       data,
       rawContent,
       up.version,
       up.date,
       currentReleaseVersion,
     );
-    await saveVersionInfo(versionInfo, versionFilePath);
+    if (existingVersion?.sourceValidators) {
+      versionInfo.sourceValidators = existingVersion.sourceValidators;
+    }
+    if (downloaded) {
+      versionInfo = withSourceValidators(versionInfo, downloaded.url, downloaded.validators);
+    }
+
+    const files = [pendingJsonFile(versionInfo, versionFilePath)];
+    let changelogEntry: UsbIdsChangelogEntry | null = null;
+    if (downloaded) {
+      files.push(
+        { filePath: path.resolve(root, USB_IDS_FILE), content: downloaded.content },
+        pendingJsonFile(data, dataPath),
+      );
+      if (
+        existingVersion &&
+        getUpstreamHashFromManifest(existingVersion) !== versionInfo.upstreamHash
+      ) {
+        changelogEntry = createChangelogEntry(existingVersion, dataPath, data, versionInfo);
+        const changelogPath = path.resolve(root, USB_IDS_CHANGELOG_JSON_FILE);
+        files.push(
+          pendingJsonFile([...loadChangelog(changelogPath), changelogEntry], changelogPath),
+        );
+      }
+    }
+    await commitFiles(files);
 
-    return { data, source, versionInfo };
+    data = applyOverlays(data, overlayPaths);
+    return { data, source, versionInfo, changelogEntry, notModified: false, sourceReports };
   } catch (error) {
-    throw new Error(`Failed to fetch USB ID data: ${(error as Error).message}`);
+    const message = `Failed to fetch USB ID data: ${(error as Error).message}`;
+    if (error instanceof UsbApiError) throw new UsbApiError(message, error.code, error);
+    throw new Error(message);
+  } finally {
+    releaseLock?.();
   }
 }
 
-export { loadJsonFile, loadVersionInfo } from "../repository/file-store";
-export { saveRawUsbIdsFile, saveUsbIdsToFile, saveVersionInfo } from "../repository/file-store";
+export { loadChangelog, loadJsonFile, loadVersionInfo } from "../repository/file-store";
+export {
+  appendChangelogEntry,
+  saveRawUsbIdsFile,
+  saveUsbIdsToFile,
+  saveVersionInfo,
+} from "../repository/file-store";
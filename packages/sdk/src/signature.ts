@@ -0,0 +1,56 @@
+/**
+ * Detached Ed25519 signatures for published data files. Each signed file `x` has a sibling
+ * `x.sig` holding the base64 signature of its exact bytes. Browser-safe (Web Crypto only).
+ */
+
+export const SIGNATURE_FILE_SUFFIX = ".sig";
+
+/** DER prefix of an Ed25519 SubjectPublicKeyInfo; the 32 raw key bytes follow it. */
+const ED25519_SPKI_PREFIX = [
+  0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00,
+];
+
+function decodeBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text.replace(/\s+/g, "")), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Normalize a public key to SPKI DER bytes. Accepts a PEM `PUBLIC KEY` block, base64 SPKI DER,
+ * or the base64 of the 32 raw key bytes.
+ */
+export function decodeEd25519PublicKey(publicKey: string): Uint8Array<ArrayBuffer> {
+  const pem = publicKey.match(/-----BEGIN PUBLIC KEY-----([\s\S]+?)-----END PUBLIC KEY-----/);
+  const bytes = decodeBase64(pem ? pem[1] : publicKey.trim());
+  if (bytes.length === 32) return Uint8Array.from([...ED25519_SPKI_PREFIX, ...bytes]);
+  const prefixMatches = ED25519_SPKI_PREFIX.every((b, i) => bytes[i] === b);
+  if (bytes.length !== ED25519_SPKI_PREFIX.length + 32 || !prefixMatches) {
+    throw new Error("Public key is not an Ed25519 key (expected PEM, SPKI or 32 raw bytes)");
+  }
+  return bytes;
+}
+
+/**
+ * Check a detached base64 signature over `content` (bytes, or text encoded as UTF-8).
+ * Resolves `false` for a wrong or malformed signature; throws for an unusable public key.
+ */
+export async function verifyEd25519Signature(
+  content: Uint8Array | string,
+  signature: string,
+  publicKey: string,
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    "spki",
+    decodeEd25519PublicKey(publicKey),
+    { name: "Ed25519" },
+    false,
+    ["verify"],
+  );
+  let signatureBytes: Uint8Array<ArrayBuffer>;
+  try {
+    signatureBytes = decodeBase64(signature.trim());
+  } catch {
+    return false;
+  }
+  const data = typeof content === "string" ? new TextEncoder().encode(content) : content;
+  return crypto.subtle.verify({ name: "Ed25519" }, key, signatureBytes, new Uint8Array(data));
+}
@@ -1,12 +1,19 @@
+/** Where an entry's name comes from; entries without `origin` are upstream. */
+export type UsbEntryOrigin = "local";
+
 export interface UsbDevice {
   devid: string;
   devname: string;
+  /** `"local"` when added or renamed by an overlay file */
+  origin?: UsbEntryOrigin;
 }
 
 export interface UsbVendor {
   vendor: string;
   name: string;
   devices: Record<string, UsbDevice>;
+  /** `"local"` when added or renamed by an overlay file */
+  origin?: UsbEntryOrigin;
 }
 
 export type UsbIdsData = Record<string, UsbVendor>;
@@ -16,6 +23,8 @@ export interface UsbSubsystem {
   subvendor: string;
   subdevice: string;
   name: string;
+  /** `"local"` when added or renamed by an overlay file */
+  origin?: UsbEntryOrigin;
 }
 
 export interface UsbDeviceV2 extends UsbDevice {
@@ -26,6 +35,8 @@ export interface UsbVendorV2 {
   vendor: string;
   name: string;
   devices: Record<string, UsbDeviceV2>;
+  /** `"local"` when added or renamed by an overlay file */
+  origin?: UsbEntryOrigin;
 }
 
 export interface UsbProtocolEntry {
@@ -45,6 +56,13 @@ export interface UsbClassEntry {
   subclasses: Record<string, UsbSubclassEntry>;
 }
 
+/** Class/subclass/protocol codes as 2-digit lower-case hex (e.g. reported by a device interface). */
+export interface UsbClassTriplet {
+  classCode: string;
+  subclassCode: string;
+  protocolCode: string;
+}
+
 export interface HidUsagePage {
   pageCode: string;
   name: string;
@@ -73,6 +91,14 @@ export interface UsbDatasetV2 {
   hcts: Record<string, string>;
 }
 
+/** HTTP cache validators returned by an upstream source, replayed on the next fetch. */
+export interface HttpValidators {
+  /** `ETag` response header, sent back as `If-None-Match` */
+  etag?: string;
+  /** `Last-Modified` response header, sent back as `If-Modified-Since` */
+  lastModified?: string;
+}
+
 /** Published manifest for USB.ID — aligns with `package.json` version (CalVer). */
 export interface VersionInfo {
   /** CalVer release, same as npm `version` (`schemaMajor.YYYYMMDD.N`) */
@@ -91,4 +117,31 @@ export interface VersionInfo {
   buildTimeFormatted: string;
   vendorCount: number;
   deviceCount: number;
+  /** Validators of the last successful download, keyed by source URL */
+  sourceValidators?: Record<string, HttpValidators>;
+}
+
+/** Added, removed and renamed entries in one section of a dataset diff. */
+export interface DatasetChangeCounts {
+  added: number;
+  removed: number;
+  renamed: number;
+}
+
+/** One record in `usb.ids.changelog.json`, appended when a fetch replaces the dataset. */
+export interface UsbIdsChangelogEntry {
+  /** UTC ms when the new dataset was written */
+  time: number;
+  /** `time` as formatted UTC string */
+  timeFormatted: string;
+  /** Upstream `# Version` before the fetch */
+  fromUpstreamVersion: string;
+  /** Upstream `# Version` after the fetch */
+  toUpstreamVersion: string;
+  /** `releaseVersion` of the new manifest */
+  releaseVersion: string;
+  vendors: DatasetChangeCounts;
+  devices: DatasetChangeCounts;
+  /** Manifest that was replaced */
+  previous: VersionInfo;
 }
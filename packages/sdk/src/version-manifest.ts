@@ -1,4 +1,4 @@
-import type { VersionInfo } from "./types";
+import type { HttpValidators, VersionInfo } from "./types";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { legacyReleaseToUpstream, legacyV10FetchTimestampToUpstream } from "./manifest-ui";
@@ -14,6 +14,19 @@ type LegacyManifest = Partial<VersionInfo> & {
   fetchTimeFormatted?: string;
 };
 
+function normalizeSourceValidators(raw: unknown): Record<string, HttpValidators> | null {
+  if (!raw || typeof raw !== "object") return null;
+  const result: Record<string, HttpValidators> = {};
+  for (const [url, value] of Object.entries(raw as Record<string, unknown>)) {
+    const v = (value ?? {}) as Record<string, unknown>;
+    const validators: HttpValidators = {};
+    if (typeof v.etag === "string") validators.etag = v.etag;
+    if (typeof v.lastModified === "string") validators.lastModified = v.lastModified;
+    if (validators.etag || validators.lastModified) result[url] = validators;
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
+
 export function normalizeVersionInfo(raw: unknown): VersionInfo | null {
   if (!raw || typeof raw !== "object") return null;
   const r = raw as LegacyManifest;
@@ -55,6 +68,8 @@ export function normalizeVersionInfo(raw: unknown): VersionInfo | null {
         ? r.fetchTimeFormatted
         : formatDateTime(buildTime);
 
+  const sourceValidators = normalizeSourceValidators(r.sourceValidators);
+
   return {
     releaseVersion,
     upstreamVersion,
@@ -65,6 +80,7 @@ export function normalizeVersionInfo(raw: unknown): VersionInfo | null {
     buildTimeFormatted,
     vendorCount: Number(r.vendorCount ?? 0),
     deviceCount: Number(r.deviceCount ?? 0),
+    ...(sourceValidators ? { sourceValidators } : {}),
   };
 }
 
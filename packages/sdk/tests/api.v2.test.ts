@@ -0,0 +1,135 @@
+import { generateKeyPairSync } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  getDatasetV2,
+  getDevice,
+  getDevices,
+  getDeviceV2,
+  getVendor,
+  getVendors,
+  getVendorV2,
+  searchDevicesV2,
+} from "../src/api";
+import { USB_IDS_FILE, USB_IDS_JSON_FILE, USB_IDS_VERSION_JSON_FILE } from "../src/config";
+import { ERROR_CODES } from "../src/errors";
+import { signFile } from "../src/node/signing";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { createVersionInfo } from "../src/parser/version-info";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("schema v2 api", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "usb-api-v2-"));
+    fs.writeFileSync(
+      path.join(root, USB_IDS_JSON_FILE),
+      JSON.stringify(parseUsbIdsFull(MINI_USB_IDS)),
+    );
+  });
+
+  afterEach(() => {
+    if (root && fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("returns the full dataset with non-vendor sections", async () => {
+    const dataset = await getDatasetV2(false, { rootDir: root });
+    expect(dataset.schemaVersion).toBe(2);
+    expect(dataset.classes["03"]?.name).toBe("Wireless Controller");
+  });
+
+  it("keeps subsystems on v2 devices while the v1 api stays flat", async () => {
+    const device = await getDeviceV2("AAAA", "1111", false, { rootDir: root });
+    expect(device?.subsystems).toEqual([
+      { subvendor: "2222", subdevice: "3333", name: "Subsystem Name" },
+    ]);
+    expect(await getDevice("aaaa", "1111", false, { rootDir: root })).toEqual({
+      devid: "1111",
+      devname: "Fixture Device",
+    });
+    expect(await getDeviceV2("aaaa", "ffff", false, { rootDir: root })).toBeNull();
+  });
+
+  it("finds vendors and searches devices with v2 records", async () => {
+    const vendor = await getVendorV2("fixture", false, { rootDir: root });
+    expect(vendor?.devices["1111"]?.subsystems).toHaveLength(1);
+
+    const results = await searchDevicesV2("fixture device", false, { rootDir: root });
+    expect(results).toHaveLength(1);
+    expect(results[0].device.subsystems?.[0]?.name).toBe("Subsystem Name");
+  });
+
+  it("returns mutable results by default and frozen shared ones on request", async () => {
+    const options = { rootDir: root };
+    const [vendor] = await getVendors("fixture", false, options);
+    vendor!.name = "Annotated";
+    const [device] = await getDevices("aaaa", undefined, false, options);
+    device!.devname = "Annotated";
+    expect((await getVendor("aaaa", false, options))?.name).toBe("Fixture Vendor");
+    expect((await getDevice("aaaa", "1111", false, options))?.devname).toBe("Fixture Device");
+
+    const frozen = { rootDir: root, frozen: true };
+    const shared = await getVendor("aaaa", false, frozen);
+    expect(Object.isFrozen(shared)).toBe(true);
+    expect(await getVendor("aaaa", false, frozen)).toBe(shared);
+  });
+
+  it("keeps the integrity error code when a verified data file was tampered with", async () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const manifest = createVersionInfo(dataset, MINI_USB_IDS, "2026.05.06", null, "2.20260506.0");
+    fs.writeFileSync(path.join(root, USB_IDS_FILE), `${MINI_USB_IDS}bbbb  Hand-edited\n`);
+    fs.writeFileSync(path.join(root, USB_IDS_VERSION_JSON_FILE), JSON.stringify(manifest));
+    const options = { rootDir: root, verify: true };
+    await expect(getVendors(undefined, false, options)).rejects.toMatchObject({
+      code: ERROR_CODES.INTEGRITY_MISMATCH,
+    });
+    await expect(getDatasetV2(false, options)).rejects.toMatchObject({
+      code: ERROR_CODES.INTEGRITY_MISMATCH,
+    });
+  });
+
+  it("keeps the signature error code for a forged data file", async () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const options = {
+      rootDir: root,
+      publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    };
+    signFile(path.join(root, USB_IDS_JSON_FILE), privatePem);
+    expect((await getDatasetV2(false, options)).schemaVersion).toBe(2);
+
+    fs.appendFileSync(path.join(root, USB_IDS_JSON_FILE), " ");
+    await expect(getDatasetV2(false, options)).rejects.toMatchObject({
+      code: ERROR_CODES.SIGNATURE_INVALID,
+    });
+    await expect(getVendors(undefined, false, options)).rejects.toMatchObject({
+      code: ERROR_CODES.SIGNATURE_INVALID,
+    });
+  });
+
+  it("keeps the downgrade error code when a forced update finds older content", async () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const manifest = createVersionInfo(dataset, MINI_USB_IDS, "2026.05.06", null, "2.20260506.0");
+    fs.writeFileSync(path.join(root, USB_IDS_VERSION_JSON_FILE), JSON.stringify(manifest));
+    const olderFile = path.join(root, "older.ids");
+    fs.writeFileSync(olderFile, MINI_USB_IDS.replace("2026.05.06", "2026.01.01"));
+    const options = { rootDir: root, upstreamUrls: [pathToFileURL(olderFile).href] };
+    await expect(getVendors(undefined, true, options)).rejects.toMatchObject({
+      code: ERROR_CODES.DOWNGRADE_REFUSED,
+    });
+    await expect(getDatasetV2(true, options)).rejects.toMatchObject({
+      code: ERROR_CODES.DOWNGRADE_REFUSED,
+    });
+  });
+
+  it("wraps other load failures as network errors", async () => {
+    fs.rmSync(path.join(root, USB_IDS_JSON_FILE));
+    await expect(getDatasetV2(false, { rootDir: root })).rejects.toMatchObject({
+      code: ERROR_CODES.NETWORK_ERROR,
+    });
+  });
+});
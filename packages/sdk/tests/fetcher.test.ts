@@ -1,5 +1,12 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { downloadFile, downloadFromUrls } from "../src/fetcher";
+import type { SourceReport } from "../src/fetcher";
+import { downloadFile, downloadFromUrls, downloadFromUrlsConditional } from "../src/fetcher";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
 
 describe("fetcher", () => {
   const origFetch = globalThis.fetch;
@@ -19,6 +26,7 @@ describe("fetcher", () => {
       ok: true,
       status: 200,
       statusText: "OK",
+      headers: new Headers(),
       text: async () => "usb ids body",
     } as Response);
 
@@ -33,6 +41,7 @@ describe("fetcher", () => {
         ok: true,
         status: 200,
         statusText: "OK",
+        headers: new Headers(),
         text: async () => "ok",
       } as Response);
 
@@ -47,6 +56,7 @@ describe("fetcher", () => {
         ok: true,
         status: 200,
         statusText: "OK",
+        headers: new Headers(),
         text: async () => "from-b",
       } as Response);
 
@@ -61,4 +71,296 @@ describe("fetcher", () => {
 
     await expect(downloadFromUrls(["https://a.example/x"])).rejects.toThrow("down");
   });
+
+  it("downloadFromUrlsConditional sends stored validators and returns new ones", async () => {
+    vi.mocked(fetch).mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers({ ETag: '"v2"', "Last-Modified": "Thu, 07 May 2026 00:00:00 GMT" }),
+      text: async () => "body",
+    } as Response);
+
+    const url = "https://a.example/x";
+    await expect(downloadFromUrlsConditional([url], { [url]: { etag: '"v1"' } })).resolves.toEqual({
+      url,
+      notModified: false,
+      content: "body",
+      validators: { etag: '"v2"', lastModified: "Thu, 07 May 2026 00:00:00 GMT" },
+    });
+    const init = vi.mocked(fetch).mock.calls[0][1] as RequestInit;
+    expect(init.headers).toMatchObject({ "If-None-Match": '"v1"' });
+    expect(init.headers).not.toHaveProperty("If-Modified-Since");
+  });
+
+  it("parses streamed HTTP bodies while they download", async () => {
+    const bytes = new TextEncoder().encode(MINI_USB_IDS);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7));
+        controller.close();
+      },
+    });
+    vi.mocked(fetch).mockResolvedValue(new Response(body));
+    const result = await downloadFromUrlsConditional(["https://example.test/usb.ids"]);
+    expect(result).toMatchObject({ notModified: false, content: MINI_USB_IDS });
+    expect(!result.notModified && result.dataset).toEqual(parseUsbIdsFull(MINI_USB_IDS));
+  });
+
+  it("downloadFromUrlsConditional reports 304 without reading a body", async () => {
+    const text = vi.fn();
+    vi.mocked(fetch).mockResolvedValue({
+      ok: false,
+      status: 304,
+      statusText: "Not Modified",
+      headers: new Headers(),
+      text,
+    } as unknown as Response);
+
+    const url = "https://a.example/x";
+    await expect(
+      downloadFromUrlsConditional([url], { [url]: { lastModified: "Wed, 06 May 2026" } }),
+    ).resolves.toEqual({ url, notModified: true });
+    expect(text).not.toHaveBeenCalled();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the injected fetch, headers, retry count and logger", async () => {
+    const customFetch = vi.fn().mockRejectedValue(new Error("proxy refused"));
+    const logger = { warn: vi.fn() };
+
+    await expect(
+      downloadFromUrls(["https://a.example/x"], {
+        fetch: customFetch,
+        headers: { Authorization: "Bearer t" },
+        retries: 2,
+        backoffMs: 0,
+        logger,
+      }),
+    ).rejects.toThrow("proxy refused");
+    expect(fetch).not.toHaveBeenCalled();
+    expect(customFetch).toHaveBeenCalledTimes(2);
+    expect((customFetch.mock.calls[0][1] as RequestInit).headers).toMatchObject({
+      Authorization: "Bearer t",
+    });
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Failed to download from https://a.example/x:",
+      expect.any(Error),
+    );
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("reads file: URLs and answers not modified for an unchanged mtime", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "usb-ids-fetcher-"));
+    try {
+      const file = path.join(dir, "usb.ids");
+      fs.writeFileSync(file, "mirror body");
+      const url = pathToFileURL(file).href;
+
+      const first = await downloadFromUrlsConditional([url]);
+      expect(first).toMatchObject({ url, notModified: false, content: "mirror body" });
+      if (first.notModified) throw new Error("expected content");
+      await expect(
+        downloadFromUrlsConditional([url], { [url]: first.validators }),
+      ).resolves.toEqual({ url, notModified: true });
+      expect(fetch).not.toHaveBeenCalled();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("decodes percent-encoded and base64 data: URLs", async () => {
+    await expect(downloadFile("data:text/plain,1234%20%20Vendor%0A")).resolves.toBe(
+      "1234  Vendor\n",
+    );
+    const base64 = Buffer.from("1234  Bäcker\n").toString("base64");
+    await expect(downloadFile(`data:text/plain;charset=utf-8;base64,${base64}`)).resolves.toBe(
+      "1234  Bäcker\n",
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("races sources and takes the first response with a newer version", async () => {
+    const bodies: Record<string, [string, number]> = {
+      "https://stale.example/x": ["# Version: 2026.01.01\n", 0],
+      "https://fresh.example/x": ["# Version: 2026.06.01\n", 20],
+      "https://slow.example/x": ["# Version: 2026.07.01\n", 5_000],
+    };
+    const customFetch = vi.fn(
+      (url: string | URL | Request, init?: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          const [body, delayMs] = bodies[String(url)];
+          const timer = setTimeout(() => {
+            resolve({
+              ok: true,
+              status: 200,
+              statusText: "OK",
+              headers: new Headers(),
+              text: async () => body,
+            } as Response);
+          }, delayMs);
+          init?.signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(new Error("aborted"));
+          });
+        }),
+    );
+    const reports: SourceReport[] = [];
+
+    const result = await downloadFromUrlsConditional(
+      Object.keys(bodies),
+      {},
+      {
+        fetch: customFetch as typeof fetch,
+        strategy: "race",
+        retries: 1,
+        currentVersion: "2026.05.06",
+        onSourceReport: (report) => reports.push(report),
+      },
+    );
+    expect(result).toMatchObject({ url: "https://fresh.example/x", notModified: false });
+    expect(reports.map((r) => [r.url, r.status, r.version, r.selected])).toEqual([
+      ["https://stale.example/x", "ok", "2026.01.01", false],
+      ["https://fresh.example/x", "ok", "2026.06.01", true],
+      ["https://slow.example/x", "cancelled", undefined, false],
+    ]);
+    expect(reports[1].hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it("does not wait for a losing source's retry backoff once the race is decided", async () => {
+    const customFetch = vi.fn(async (url: string | URL | Request) => {
+      if (String(url).includes("down.")) throw new Error("connection refused");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return {
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        headers: new Headers(),
+        text: async () => "# Version: 2026.06.01\n",
+      } as Response;
+    }) as unknown as typeof fetch;
+
+    const started = Date.now();
+    const result = await downloadFromUrlsConditional(
+      ["https://down.example/x", "https://up.example/x"],
+      {},
+      { fetch: customFetch, strategy: "race", retries: 3, backoffMs: 10_000 },
+    );
+    expect(result.url).toBe("https://up.example/x");
+    expect(Date.now() - started).toBeLessThan(2_000);
+  });
+
+  it("removes its abort listeners once a raced attempt settles without AbortSignal.any", async () => {
+    const origAbortSignal = AbortSignal;
+    vi.stubGlobal("AbortSignal", Object.assign(Object.create(AbortSignal), { any: undefined }));
+    const added = vi.spyOn(EventTarget.prototype, "addEventListener");
+    const removed = vi.spyOn(EventTarget.prototype, "removeEventListener");
+    const customFetch = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(),
+      text: async () => "# Version: 2026.06.01\n",
+    })) as unknown as typeof fetch;
+
+    try {
+      await downloadFromUrlsConditional(
+        ["https://a.example/x", "https://b.example/x"],
+        {},
+        { fetch: customFetch, strategy: "race", retries: 1 },
+      );
+      const abortCalls = (spy: typeof added) => spy.mock.calls.filter(([type]) => type === "abort");
+      expect(abortCalls(added).length).toBeGreaterThan(0);
+      expect(abortCalls(removed).map(([, listener]) => listener)).toEqual(
+        abortCalls(added).map(([, listener]) => listener),
+      );
+    } finally {
+      added.mockRestore();
+      removed.mockRestore();
+      vi.stubGlobal("AbortSignal", origAbortSignal);
+    }
+  });
+
+  it("falls back to the highest version when no raced source is newer", async () => {
+    const customFetch = vi.fn(async (url: string | URL | Request) => ({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(),
+      text: async () =>
+        String(url).includes("b.") ? "# Version: 2026.05.06\n" : "# Version: 2026.01.01\n",
+    })) as unknown as typeof fetch;
+
+    const result = await downloadFromUrlsConditional(
+      ["https://a.example/x", "https://b.example/x"],
+      {},
+      {
+        fetch: customFetch,
+        strategy: "race",
+        currentVersion: "2026.05.06",
+      },
+    );
+    expect(result.url).toBe("https://b.example/x");
+
+    // Older content loses to a 304 from a mirror that still has the local version
+    vi.mocked(customFetch).mockImplementation(async (url) =>
+      String(url).includes("b.")
+        ? ({
+            ok: false,
+            status: 304,
+            statusText: "Not Modified",
+            headers: new Headers(),
+          } as Response)
+        : ({
+            ok: true,
+            status: 200,
+            statusText: "OK",
+            headers: new Headers(),
+            text: async () => "# Version: 2026.01.01\n",
+          } as Response),
+    );
+    const validators = { "https://b.example/x": { etag: '"v1"' } };
+    await expect(
+      downloadFromUrlsConditional(["https://a.example/x", "https://b.example/x"], validators, {
+        fetch: customFetch,
+        strategy: "race",
+        currentVersion: "2026.05.06",
+      }),
+    ).resolves.toEqual({ url: "https://b.example/x", notModified: true });
+  });
+
+  it("moves past sequential mirrors that lag behind the local version", async () => {
+    const customFetch = vi.fn(async (url: string | URL | Request) => ({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(),
+      text: async () =>
+        String(url).includes("b.") ? "# Version: 2026.06.01\n" : "# Version: 2026.01.01\n",
+    })) as unknown as typeof fetch;
+    const urls = ["https://a.example/x", "https://b.example/x"];
+
+    const result = await downloadFromUrlsConditional(
+      urls,
+      {},
+      {
+        fetch: customFetch,
+        currentVersion: "2026.05.06",
+      },
+    );
+    expect(result.url).toBe("https://b.example/x");
+    expect(customFetch).toHaveBeenCalledTimes(2);
+
+    // Without a newer mirror the best older copy is returned for the caller to judge
+    const onlyOld = await downloadFromUrlsConditional(
+      urls.slice(0, 1),
+      {},
+      {
+        fetch: customFetch,
+        currentVersion: "2026.05.06",
+      },
+    );
+    expect(onlyOld.url).toBe("https://a.example/x");
+  });
 });
@@ -0,0 +1,29 @@
+/** `lsusb` short listing followed by an abridged `lsusb -v` section. */
+export const LSUSB_SHORT = [
+  "Bus 002 Device 001: ID 1d6b:0003 Linux Foundation 3.0 root hub",
+  "Bus 001 Device 003: ID aaaa:1111 Fixture Vendor Fixture Device",
+  "Bus 001 Device 004: ID ffff:0001",
+].join("\n");
+
+export const LSUSB_VERBOSE = [
+  "",
+  "Bus 001 Device 003: ID aaaa:1111 Fixture Vendor Fixture Device",
+  "Device Descriptor:",
+  "  bLength                18",
+  "  bDeviceClass            3 Wireless Controller",
+  "  bDeviceSubClass         1 RF Controller",
+  "  bDeviceProtocol         1 Bluetooth",
+  "  idVendor           0xaaaa Fixture Vendor",
+  "  idProduct          0x1111 Fixture Device",
+  "  Configuration Descriptor:",
+  "    Interface Descriptor:",
+  "      bInterfaceNumber        0",
+  "      bInterfaceClass         3 Wireless Controller",
+  "      bInterfaceSubClass      1 RF Controller",
+  "      bInterfaceProtocol      1 Bluetooth",
+  "    Interface Descriptor:",
+  "      bInterfaceNumber        1",
+  "      bInterfaceClass       255 Vendor Specific Class",
+  "      bInterfaceSubClass      0 ",
+  "      bInterfaceProtocol      0 ",
+].join("\r\n");
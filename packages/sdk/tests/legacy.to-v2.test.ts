@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { isDatasetV2 } from "../src/legacy/to-v1";
+import { toV2 } from "../src/legacy/to-v2";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("legacy toV2", () => {
+  it("lifts a v1 record into an empty v2 shell", () => {
+    const v2 = toV2({
+      aaaa: { vendor: "aaaa", name: "V", devices: { "0001": { devid: "0001", devname: "D" } } },
+    });
+    expect(isDatasetV2(v2)).toBe(true);
+    expect(v2.vendors.aaaa?.devices["0001"]?.devname).toBe("D");
+    expect(v2.classes).toEqual({});
+  });
+
+  it("returns v2 input unchanged", () => {
+    const v2 = parseUsbIdsFull(MINI_USB_IDS);
+    expect(toV2(v2)).toBe(v2);
+  });
+});
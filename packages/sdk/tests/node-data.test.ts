@@ -0,0 +1,228 @@
+import { generateKeyPairSync } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { USB_IDS_FILE, USB_IDS_JSON_FILE, USB_IDS_VERSION_JSON_FILE } from "../src/config";
+import { ERROR_CODES } from "../src/errors";
+import { clearCache, loadUsbDatasetSync, loadUsbDataSync, verifyUsbData } from "../src/node/data";
+import { signFile } from "../src/node/signing";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { createVersionInfo } from "../src/parser/version-info";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("node data loaders", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "usb-data-"));
+  });
+
+  afterEach(() => {
+    if (root && fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("loads v2 files as datasets and flattens them for the v1 loader", () => {
+    fs.writeFileSync(
+      path.join(root, USB_IDS_JSON_FILE),
+      JSON.stringify(parseUsbIdsFull(MINI_USB_IDS)),
+    );
+    const dataset = loadUsbDatasetSync({ rootDir: root });
+    expect(dataset.classes["03"]?.name).toBe("Wireless Controller");
+    expect(dataset.vendors.aaaa?.devices["1111"]?.subsystems).toHaveLength(1);
+    expect(loadUsbDataSync({ rootDir: root }).aaaa?.devices["1111"]).toEqual({
+      devid: "1111",
+      devname: "Fixture Device",
+    });
+  });
+
+  it("lifts legacy v1 files into a dataset shell", () => {
+    fs.writeFileSync(
+      path.join(root, USB_IDS_JSON_FILE),
+      JSON.stringify({ aaaa: { vendor: "aaaa", name: "V", devices: {} } }),
+    );
+    const dataset = loadUsbDatasetSync({ rootDir: root });
+    expect(dataset.schemaVersion).toBe(2);
+    expect(dataset.vendors.aaaa?.name).toBe("V");
+  });
+
+  it("merges overlay files in usb.ids or JSON syntax", () => {
+    fs.writeFileSync(
+      path.join(root, USB_IDS_JSON_FILE),
+      JSON.stringify(parseUsbIdsFull(MINI_USB_IDS)),
+    );
+    fs.writeFileSync(path.join(root, "local.ids"), "aaaa  Fixture Vendor\n\tbeef  Prototype\n");
+    fs.writeFileSync(
+      path.join(root, "local.json"),
+      JSON.stringify({ cafe: { vendor: "cafe", name: "Internal Lab", devices: {} } }),
+    );
+    const options = { rootDir: root, overlayFiles: ["local.ids", "local.json"] };
+    const dataset = loadUsbDatasetSync(options);
+    expect(dataset.vendors.aaaa?.devices.beef?.origin).toBe("local");
+    expect(dataset.vendors.cafe?.origin).toBe("local");
+    expect(loadUsbDataSync(options).aaaa?.devices.beef).toEqual({
+      devid: "beef",
+      devname: "Prototype",
+      origin: "local",
+    });
+  });
+
+  it("throws when an overlay file is missing", () => {
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), "{}");
+    expect(() => loadUsbDatasetSync({ rootDir: root, overlayFiles: ["nope.ids"] })).toThrow(
+      /Failed to read overlay file/,
+    );
+  });
+
+  it("throws when the data file is missing", () => {
+    expect(() => loadUsbDatasetSync({ rootDir: root })).toThrow(/Missing usb.ids.json/);
+  });
+
+  it("verifies the data file against the manifest hash and counts", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const manifest = createVersionInfo(dataset, MINI_USB_IDS, "2026.05.06", null, "2.20260506.0");
+    fs.writeFileSync(path.join(root, USB_IDS_FILE), MINI_USB_IDS);
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), JSON.stringify(dataset));
+    fs.writeFileSync(path.join(root, USB_IDS_VERSION_JSON_FILE), JSON.stringify(manifest));
+    expect(verifyUsbData({ rootDir: root })).toMatchObject({
+      ok: true,
+      hashedFile: USB_IDS_FILE,
+      issues: [],
+    });
+    expect(loadUsbDatasetSync({ rootDir: root, verify: true }).vendors.aaaa).toBeDefined();
+
+    const edited = structuredClone(dataset);
+    delete edited.vendors.aaaa?.devices["1111"];
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), JSON.stringify(edited));
+    fs.appendFileSync(path.join(root, USB_IDS_FILE), "bbbb  Hand-edited\n");
+    const result = verifyUsbData({ rootDir: root });
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => [i.code, i.expected, i.actual])).toEqual([
+      ["hash-mismatch", manifest.upstreamHash, expect.stringMatching(/^[0-9a-f]{64}$/)],
+      ["device-count-mismatch", manifest.deviceCount, manifest.deviceCount - 1],
+    ]);
+    expect(() => loadUsbDatasetSync({ rootDir: root, verify: true })).toThrow(
+      expect.objectContaining({ code: ERROR_CODES.INTEGRITY_MISMATCH }),
+    );
+    expect(() => loadUsbDatasetSync({ rootDir: root })).not.toThrow();
+  });
+
+  it("reports a truncated data file instead of throwing", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const manifest = createVersionInfo(dataset, MINI_USB_IDS, "2026.05.06", null, "2.20260506.0");
+    const json = JSON.stringify(dataset);
+    fs.writeFileSync(path.join(root, USB_IDS_FILE), MINI_USB_IDS);
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), json.slice(0, json.length / 2));
+    fs.writeFileSync(path.join(root, USB_IDS_VERSION_JSON_FILE), JSON.stringify(manifest));
+    const result = verifyUsbData({ rootDir: root });
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => i.code)).toEqual(["data-invalid"]);
+    expect(() => loadUsbDatasetSync({ rootDir: root, verify: true })).toThrow(
+      expect.objectContaining({ code: ERROR_CODES.INTEGRITY_MISMATCH }),
+    );
+  });
+
+  it("reports a missing manifest when verifying", () => {
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), "{}");
+    expect(verifyUsbData({ rootDir: root }).issues.map((i) => i.code)).toEqual([
+      "manifest-missing",
+    ]);
+  });
+
+  it("checks detached signatures against a public key", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+    const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const manifest = createVersionInfo(dataset, MINI_USB_IDS, "2026.05.06", null, "2.20260506.0");
+    fs.writeFileSync(path.join(root, USB_IDS_FILE), MINI_USB_IDS);
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), JSON.stringify(dataset));
+    fs.writeFileSync(path.join(root, USB_IDS_VERSION_JSON_FILE), JSON.stringify(manifest));
+    const options = { rootDir: root, publicKey: publicPem };
+
+    expect(() => loadUsbDatasetSync(options)).toThrow(
+      expect.objectContaining({ code: ERROR_CODES.SIGNATURE_INVALID }),
+    );
+    signFile(path.join(root, USB_IDS_JSON_FILE), privatePem);
+    expect(loadUsbDatasetSync(options).vendors.aaaa).toBeDefined();
+
+    expect(verifyUsbData(options).issues.map((i) => i.code)).toEqual([
+      "signature-missing",
+      "signature-missing",
+    ]);
+
+    signFile(path.join(root, USB_IDS_VERSION_JSON_FILE), privatePem);
+    signFile(path.join(root, USB_IDS_FILE), privatePem);
+    expect(verifyUsbData(options).ok).toBe(true);
+
+    fs.appendFileSync(path.join(root, USB_IDS_JSON_FILE), " ");
+    expect(verifyUsbData(options).issues.map((i) => i.code)).toEqual(["signature-invalid"]);
+    expect(() => loadUsbDataSync(options)).toThrow(/Invalid signature/);
+  });
+
+  it("reuses the parsed dataset until the files change", () => {
+    const dataFile = path.join(root, USB_IDS_JSON_FILE);
+    fs.writeFileSync(dataFile, JSON.stringify(parseUsbIdsFull(MINI_USB_IDS)));
+    const shared = { rootDir: root, frozen: true };
+    const first = loadUsbDatasetSync(shared);
+    expect(loadUsbDatasetSync(shared)).toBe(first);
+    expect(loadUsbDataSync(shared)).toBe(loadUsbDataSync(shared));
+    expect(loadUsbDatasetSync({ rootDir: root, cache: false })).not.toBe(first);
+
+    clearCache();
+    const reloaded = loadUsbDatasetSync(shared);
+    expect(reloaded).not.toBe(first);
+    expect(reloaded).toEqual(first);
+
+    fs.writeFileSync(
+      dataFile,
+      JSON.stringify({ cafe: { vendor: "cafe", name: "New", devices: {} } }),
+    );
+    expect(loadUsbDatasetSync({ rootDir: root }).vendors.cafe?.name).toBe("New");
+  });
+
+  it("hands out mutable copies of the cache unless frozen data is requested", () => {
+    fs.writeFileSync(
+      path.join(root, USB_IDS_JSON_FILE),
+      JSON.stringify(parseUsbIdsFull(MINI_USB_IDS)),
+    );
+    const copy = loadUsbDataSync({ rootDir: root });
+    copy.aaaa!.name = "Changed";
+    expect(loadUsbDataSync({ rootDir: root }).aaaa?.name).toBe("Fixture Vendor");
+    const dataset = loadUsbDatasetSync({ rootDir: root });
+    dataset.vendors.aaaa!.devices["1111"]!.devname = "Changed";
+    expect(loadUsbDatasetSync({ rootDir: root }).vendors.aaaa?.devices["1111"]?.devname).toBe(
+      "Fixture Device",
+    );
+
+    const frozen = loadUsbDataSync({ rootDir: root, frozen: true });
+    expect(Object.isFrozen(frozen.aaaa?.devices["1111"])).toBe(true);
+    expect(() => {
+      frozen.aaaa!.name = "Changed";
+    }).toThrow(TypeError);
+    expect(Object.isFrozen(loadUsbDataSync({ rootDir: root, cache: false }).aaaa)).toBe(false);
+  });
+
+  it("re-runs signature checks when a .sig file changes", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+    const dataFile = path.join(root, USB_IDS_JSON_FILE);
+    fs.writeFileSync(dataFile, JSON.stringify(parseUsbIdsFull(MINI_USB_IDS)));
+    signFile(dataFile, privateKey.export({ type: "pkcs8", format: "pem" }).toString());
+    const options = { rootDir: root, publicKey: publicPem };
+    expect(loadUsbDatasetSync(options).vendors.aaaa).toBeDefined();
+    fs.writeFileSync(`${dataFile}.sig`, "AAAA\n");
+    expect(() => loadUsbDatasetSync(options)).toThrow(/Invalid signature/);
+  });
+
+  it("reloads when the manifest hash changes", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const manifest = createVersionInfo(dataset, MINI_USB_IDS, "2026.05.06", null, "2.20260506.0");
+    const manifestFile = path.join(root, USB_IDS_VERSION_JSON_FILE);
+    fs.writeFileSync(path.join(root, USB_IDS_JSON_FILE), JSON.stringify(dataset));
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+    const first = loadUsbDataSync({ rootDir: root });
+    fs.writeFileSync(manifestFile, JSON.stringify({ ...manifest, upstreamHash: "f".repeat(64) }));
+    expect(loadUsbDataSync({ rootDir: root })).not.toBe(first);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseLsusb } from "../src/parser/lsusb";
+import { LSUSB_SHORT, LSUSB_VERBOSE } from "./fixtures/lsusb";
+
+describe("parseLsusb", () => {
+  it("parses short bus/device/ID lines", () => {
+    const devices = parseLsusb(LSUSB_SHORT);
+    expect(devices).toHaveLength(3);
+    expect(devices[0]).toEqual({
+      line: 1,
+      bus: "002",
+      device: "001",
+      vendorId: "1d6b",
+      productId: "0003",
+      description: "Linux Foundation 3.0 root hub",
+      deviceClass: null,
+      interfaces: [],
+    });
+    expect(devices[2]?.description).toBe("");
+  });
+
+  it("extracts device and interface class triplets from lsusb -v", () => {
+    const [device] = parseLsusb(LSUSB_VERBOSE);
+    expect(device?.line).toBe(2);
+    expect(device?.deviceClass).toEqual({
+      classCode: "03",
+      subclassCode: "01",
+      protocolCode: "01",
+    });
+    expect(device?.interfaces).toEqual([
+      { number: 0, classCode: "03", subclassCode: "01", protocolCode: "01" },
+      { number: 1, classCode: "ff", subclassCode: "00", protocolCode: "00" },
+    ]);
+  });
+
+  it("merges a device listed by both lsusb and lsusb -v", () => {
+    const devices = parseLsusb(`${LSUSB_SHORT}\n${LSUSB_VERBOSE}\n${LSUSB_SHORT}`);
+    expect(devices.map((d) => `${d.bus}:${d.device} ${d.vendorId}:${d.productId}`)).toEqual([
+      "002:001 1d6b:0003",
+      "001:003 aaaa:1111",
+      "001:004 ffff:0001",
+    ]);
+    const [verbose] = parseLsusb(LSUSB_VERBOSE);
+    expect(devices[1]).toEqual({ ...verbose, line: 2 });
+  });
+
+  it("keeps devices that share a bus address but not an ID", () => {
+    const devices = parseLsusb(
+      "Bus 001 Device 004: ID ffff:0001\nBus 001 Device 004: ID ffff:0002 Replugged",
+    );
+    expect(devices.map((d) => d.productId)).toEqual(["0001", "0002"]);
+  });
+
+  it("ignores text without lsusb device lines", () => {
+    expect(parseLsusb("hello\n  bInterfaceClass 3\n")).toEqual([]);
+  });
+});
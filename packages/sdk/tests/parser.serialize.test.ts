@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { toV2 } from "../src/legacy/to-v2";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { serializeUsbIds } from "../src/parser/serialize-usb-ids";
+import { parseUsbIdsHeader } from "../src/parser/upstream-header";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("serializeUsbIds", () => {
+  it("round-trips every section through parseUsbIdsFull", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const text = serializeUsbIds(dataset, parseUsbIdsHeader(MINI_USB_IDS));
+    expect(parseUsbIdsFull(text)).toEqual(dataset);
+    expect(parseUsbIdsHeader(text)).toEqual({ version: "2026.05.06", date: "2026-05-06" });
+  });
+
+  it("writes tab-indented, hex-sorted entries with upstream section headers", () => {
+    const dataset = toV2({
+      bbbb: { vendor: "bbbb", name: "Second", devices: {} },
+      aaaa: {
+        vendor: "aaaa",
+        name: "First",
+        devices: {
+          "0010": { devid: "0010", devname: "B" },
+          "0002": { devid: "0002", devname: "A" },
+        },
+      },
+    });
+    dataset.vendors.aaaa.devices["0002"].subsystems = [
+      { subvendor: "1234", subdevice: "5678", name: "Sub" },
+    ];
+    dataset.classes["09"] = { code: "09", name: "Hub", subclasses: {} };
+    const text = serializeUsbIds(dataset, { version: "2026.01.02", date: null });
+
+    expect(text).toContain("# Version: 2026.01.02\n#\n");
+    expect(text).not.toContain("# Date:");
+    expect(text).toContain(
+      ["aaaa  First", "\t0002  A", "\t\t1234 5678  Sub", "\t0010  B", "bbbb  Second"].join("\n"),
+    );
+    expect(text).toContain("# List of known device classes, subclasses and protocols");
+    expect(text.endsWith("C 09  Hub\n")).toBe(true);
+    // Empty sections are left out entirely
+    expect(text).not.toContain("List of Languages");
+  });
+
+  it("keeps later sections parseable when earlier ones are empty", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    dataset.classes = {};
+    dataset.audioTerminals = {};
+    const reparsed = parseUsbIdsFull(serializeUsbIds(dataset, { version: null, date: null }));
+    expect(reparsed).toEqual(dataset);
+  });
+});
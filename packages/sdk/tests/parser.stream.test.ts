@@ -0,0 +1,71 @@
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { parseUsbIdsStream, streamUsbIdsEvents } from "../src/parser/stream-usb-ids";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+/** Split text into fixed-size chunks so CRLF pairs and UTF-8 sequences straddle boundaries. */
+function chunked(text: string, size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(text);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) chunks.push(bytes.subarray(i, i + size));
+  return chunks;
+}
+
+describe("parseUsbIdsStream", () => {
+  const expected = parseUsbIdsFull(MINI_USB_IDS);
+
+  it("builds the same dataset as parseUsbIdsFull from any chunking", async () => {
+    for (const size of [1, 3, 7, 64, 4096]) {
+      expect(await parseUsbIdsStream(Readable.from(chunked(MINI_USB_IDS, size)))).toEqual(expected);
+    }
+  });
+
+  it("reads WHATWG ReadableStreams of bytes or strings", async () => {
+    const bytes = new Blob([MINI_USB_IDS]).stream();
+    expect(await parseUsbIdsStream(bytes)).toEqual(expected);
+
+    const text = new ReadableStream<string>({
+      start(controller) {
+        for (const line of MINI_USB_IDS.split("\n")) controller.enqueue(`${line}\n`);
+        controller.close();
+      },
+    });
+    expect(await parseUsbIdsStream(text)).toEqual(expected);
+  });
+
+  it("decodes multi-byte characters split across chunks", async () => {
+    const dataset = await parseUsbIdsStream(Readable.from(chunked("aaaa  Bäckerei Ünited\n", 8)));
+    expect(dataset.vendors.aaaa?.name).toBe("Bäckerei Ünited");
+  });
+
+  it("reports every entry to onEvent", async () => {
+    const types: string[] = [];
+    await parseUsbIdsStream(Readable.from([MINI_USB_IDS]), { onEvent: (e) => types.push(e.type) });
+    expect(types.slice(0, 6)).toEqual([
+      "vendor",
+      "device",
+      "subsystem",
+      "class",
+      "subclass",
+      "protocol",
+    ]);
+  });
+});
+
+describe("streamUsbIdsEvents", () => {
+  it("yields typed events with 1-based line numbers", async () => {
+    async function* source() {
+      yield "# header\r";
+      yield "\n1234  Vendor\r\n\t0001  Dev";
+      yield "ice\r\nC 09  Hub\n";
+    }
+    const events = [];
+    for await (const event of streamUsbIdsEvents(source())) events.push(event);
+    expect(events).toEqual([
+      { type: "vendor", line: 2, vendor: "1234", name: "Vendor" },
+      { type: "device", line: 3, vendor: "1234", device: "0001", name: "Device" },
+      { type: "class", line: 4, classCode: "09", name: "Hub" },
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { serializeUsbIds } from "../src/parser/serialize-usb-ids";
+import { parseUsbIdsHeader } from "../src/parser/upstream-header";
+import { validateUsbIds } from "../src/parser/validate-usb-ids";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("validateUsbIds", () => {
+  it("accepts the fixture and serialized output", () => {
+    expect(validateUsbIds(MINI_USB_IDS)).toEqual({
+      valid: true,
+      errorCount: 0,
+      warningCount: 0,
+      diagnostics: [],
+    });
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const text = serializeUsbIds(dataset, parseUsbIdsHeader(MINI_USB_IDS));
+    expect(validateUsbIds(text).diagnostics).toEqual([]);
+  });
+
+  it("reports each problem with its line number", () => {
+    const text = [
+      "# comment",
+      "aaaa  Vendor A",
+      "\t0002  Device",
+      "\t0001  Earlier Device ",
+      "\t0002  Same Device",
+      "\t\t\t1234  Too Deep",
+      "  0003  Spaces",
+      "\tzzzz  Bad ID",
+      "0001  Earlier Vendor",
+      "\t\t1111 2222  Orphan Subsystem",
+      "C 03  HID",
+      "XYZ 01  Mystery",
+      "\t01  Boot",
+      "aaab  Vendor After Classes",
+      "HUT 01  Generic",
+      "C 09  Hub",
+    ].join("\n");
+    const result = validateUsbIds(text);
+    expect(result.diagnostics.map((d) => [d.line, d.severity, d.code])).toEqual([
+      [4, "warning", "trailing-whitespace"],
+      [4, "warning", "unsorted-id"],
+      [5, "error", "duplicate-id"],
+      [6, "error", "bad-indentation"],
+      [7, "error", "bad-indentation"],
+      [8, "error", "unparseable-line"],
+      [9, "warning", "unsorted-id"],
+      [10, "error", "bad-indentation"],
+      [12, "error", "unknown-section"],
+      [14, "error", "section-order"],
+      [16, "error", "section-order"],
+    ]);
+    expect(result).toMatchObject({ valid: false, errorCount: 8, warningCount: 3 });
+    expect(result.diagnostics[2].message).toBe(
+      "Duplicate device ID 0002 (first defined on line 3)",
+    );
+  });
+
+  it("keeps duplicate checks scoped to the parent entry", () => {
+    const text = "aaaa  A\n\t0001  X\nbbbb  B\n\t0001  X\nVT 0001  T\nHCT 01  H\n";
+    expect(validateUsbIds(text).valid).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { ERROR_CODES } from "../src/errors";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import {
+  decodeClassInData,
+  describeInterfaceInData,
+  getClassInData,
+  getSubclassInData,
+} from "../src/pure/classes";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("usb class lookups", () => {
+  const dataset = parseUsbIdsFull(MINI_USB_IDS);
+
+  it("getClassInData accepts numbers and hex strings", () => {
+    expect(getClassInData(dataset, 3)?.name).toBe("Wireless Controller");
+    expect(getClassInData(dataset, "0x03")?.name).toBe("Wireless Controller");
+    expect(getClassInData(dataset, "ff")).toBeNull();
+  });
+
+  it("describeInterfaceInData resolves the full triplet", () => {
+    expect(describeInterfaceInData(dataset, "03", "01", "01")).toMatchObject({
+      classCode: "03",
+      subclassCode: "01",
+      protocolCode: "01",
+      matched: "protocol",
+      name: "Bluetooth",
+    });
+  });
+
+  it("falls back to the most specific known level", () => {
+    expect(describeInterfaceInData(dataset, 3, 1, 0x7f)).toMatchObject({
+      matched: "subclass",
+      name: "RF Controller",
+      protocol: null,
+    });
+    expect(getSubclassInData(dataset, 3, 0x42)).toMatchObject({
+      matched: "class",
+      name: "Wireless Controller",
+      subclass: null,
+    });
+    expect(describeInterfaceInData(dataset, 0xfe, 0, 0)).toMatchObject({
+      matched: null,
+      name: null,
+    });
+  });
+
+  it("rejects out-of-range codes", () => {
+    expect(() => getClassInData(dataset, 256)).toThrow(
+      expect.objectContaining({ code: ERROR_CODES.INVALID_PARAMETER }),
+    );
+    expect(() => getSubclassInData(dataset, "03", "xyz")).toThrow(/Invalid subclass code/);
+  });
+
+  it("decodeClassInData flattens names", () => {
+    expect(
+      decodeClassInData(dataset, { classCode: "03", subclassCode: "01", protocolCode: "02" }),
+    ).toEqual({
+      classCode: "03",
+      subclassCode: "01",
+      protocolCode: "02",
+      className: "Wireless Controller",
+      subclassName: "RF Controller",
+      protocolName: null,
+      unknown: false,
+    });
+  });
+});
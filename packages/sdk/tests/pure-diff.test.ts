@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { countDatasetChanges, diffDatasets } from "../src/pure/diff";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("diffDatasets", () => {
+  const before = parseUsbIdsFull(MINI_USB_IDS);
+  const after = parseUsbIdsFull(
+    MINI_USB_IDS.replace("\t1111  Fixture Device", "\t1111  Fixture Device v2")
+      .replace("\t\t2222 3333  Subsystem Name", "\t1112  New Device")
+      .replace("C 03  Wireless Controller", "bbbb  New Vendor\nC 03  Wireless Controller")
+      .replace("\t\t01  Bluetooth", "")
+      .replace("\t0001  Usage One", "\t0001  Usage One\n\t0002  Usage Two"),
+  );
+
+  it("reports added, removed and renamed entries per section", () => {
+    const diff = diffDatasets(before, after);
+    expect(diff.vendors).toEqual([
+      { kind: "added", id: "bbbb", oldName: null, newName: "New Vendor" },
+    ]);
+    expect(diff.devices).toEqual([
+      {
+        kind: "renamed",
+        id: "aaaa:1111",
+        oldName: "Fixture Device",
+        newName: "Fixture Device v2",
+      },
+      { kind: "added", id: "aaaa:1112", oldName: null, newName: "New Device" },
+    ]);
+    expect(diff.subsystems).toEqual([
+      { kind: "removed", id: "aaaa:1111 2222:3333", oldName: "Subsystem Name", newName: null },
+    ]);
+    expect(diff.classes).toEqual([
+      { kind: "removed", id: "03:01:01", oldName: "Bluetooth", newName: null },
+    ]);
+    expect(diff.hidUsages).toEqual([
+      { kind: "added", id: "01:0002", oldName: null, newName: "Usage Two" },
+    ]);
+  });
+
+  it("accepts v1 data and finds nothing between identical datasets", () => {
+    const v1 = { aaaa: { vendor: "aaaa", name: "Fixture Vendor", devices: {} } };
+    const diff = diffDatasets(v1, before);
+    expect(diff.vendors).toEqual([]);
+    expect(diff.devices).toHaveLength(1);
+    expect(diff.classes.every((c) => c.kind === "added")).toBe(true);
+
+    expect(countDatasetChanges(diffDatasets(before, before))).toEqual({
+      vendors: { added: 0, removed: 0, renamed: 0 },
+      devices: { added: 0, removed: 0, renamed: 0 },
+      subsystems: { added: 0, removed: 0, renamed: 0 },
+      classes: { added: 0, removed: 0, renamed: 0 },
+      hidUsages: { added: 0, removed: 0, renamed: 0 },
+    });
+  });
+});
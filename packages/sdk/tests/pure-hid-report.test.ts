@@ -0,0 +1,119 @@
+import type { HidReportItem } from "../src/pure/hid-report";
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { decodeHidReportDescriptorInData } from "../src/pure/hid-report";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+const dataset = parseUsbIdsFull(
+  MINI_USB_IDS.replace(
+    "R 02  HID Item",
+    [
+      "R 04  Usage Page",
+      "R 08  Usage",
+      "R 14  Logical Minimum",
+      "R 18  Usage Minimum",
+      "R 24  Logical Maximum",
+      "R 28  Usage Maximum",
+      "R 74  Report Size",
+      "R 80  Input",
+      "R 94  Report Count",
+      "R a0  Collection",
+      "R c0  End Collection",
+    ].join("\n"),
+  )
+    .replace(
+      "\t0001  Usage One",
+      ["\t001  Pointer", "\t002  Mouse", "\t030  Direction-X", "\t031  Direction-Y"].join("\n"),
+    )
+    .replace("HUT 01  Usage Page Name", "HUT 01  Generic Desktop Controls")
+    .replace("L 0409", ["HUT 09  Buttons", "\t001  Button 1 (Primary)", "L 0409"].join("\n"))
+    .replace("HCC 01  Country Code", "HCC 09  German\nHCC 32  UK"),
+);
+
+// Boot-protocol style 3-button mouse with X/Y
+const MOUSE = `
+05 01 09 02 a1 01 09 01 a1 00
+05 09 19 01 29 03 15 00 25 01 95 03 75 01 81 02
+95 01 75 05 81 01
+05 01 09 30 09 31 15 81 25 7f 75 08 95 02 81 06
+c0 c0`;
+
+function names(items: HidReportItem[]): string[] {
+  return items.map((item) => `${item.name} (${item.description ?? item.value})`);
+}
+
+describe("decodeHidReportDescriptorInData", () => {
+  it("builds a collection tree with named usage pages and usages", () => {
+    const decoded = decodeHidReportDescriptorInData(dataset, MOUSE);
+    expect(decoded.byteLength).toBe(50);
+    expect(decoded.itemCount).toBe(26);
+    expect(names(decoded.items)).toEqual([
+      "Usage Page (Generic Desktop Controls)",
+      "Usage (Mouse)",
+      "Collection (Application)",
+      "End Collection (0)",
+    ]);
+
+    const application = decoded.items[2];
+    expect(application.children?.[0]).toMatchObject({ name: "Usage", description: "Pointer" });
+    const physical = application.children?.[1];
+    expect(physical?.description).toBe("Physical");
+    expect(physical?.children?.at(-1)?.name).toBe("Input");
+    expect(application.children?.at(-1)?.name).toBe("End Collection");
+    expect(physical?.children?.[1]).toMatchObject({
+      name: "Usage Minimum",
+      usagePage: "09",
+      description: "Button 1 (Primary)",
+    });
+  });
+
+  it("decodes signed extents and main item flags", () => {
+    const decoded = decodeHidReportDescriptorInData(dataset, MOUSE);
+    const physical = decoded.items[2].children?.[1].children ?? [];
+    const logicalMin = physical.filter((item) => item.name === "Logical Minimum");
+    expect(logicalMin.map((item) => item.value)).toEqual([0, -127]);
+
+    const inputs = physical.filter((item) => item.tag === "80");
+    expect(inputs.map((item) => item.description)).toEqual([
+      "Data, Variable, Absolute, No Wrap, Linear, Preferred State, No Null Position, Bit Field",
+      "Constant, Array, Absolute, No Wrap, Linear, Preferred State, No Null Position, Bit Field",
+      "Data, Variable, Relative, No Wrap, Linear, Preferred State, No Null Position, Bit Field",
+    ]);
+  });
+
+  it("accepts byte arrays, 0x-prefixed lists and extended usages", () => {
+    const decoded = decodeHidReportDescriptorInData(
+      dataset,
+      Uint8Array.from([0x0b, 0x30, 0x00, 0x01, 0x00]),
+    );
+    expect(decoded.items[0]).toMatchObject({
+      kind: "local",
+      usagePage: "01",
+      description: "Direction-X",
+    });
+    expect(decodeHidReportDescriptorInData(dataset, "0x05, 0x01").items[0].description).toBe(
+      "Generic Desktop Controls",
+    );
+  });
+
+  it("resolves the country code from the decimal HCC table", () => {
+    expect(decodeHidReportDescriptorInData(dataset, "", { countryCode: 32 }).country).toEqual({
+      code: 32,
+      name: "UK",
+    });
+    const unpadded = { ...dataset, hidCountryCodes: { "9": "Nine", "033": "US" } };
+    expect(decodeHidReportDescriptorInData(unpadded, "", { countryCode: 9 }).country?.name).toBe(
+      "Nine",
+    );
+    expect(decodeHidReportDescriptorInData(unpadded, "", { countryCode: 33 }).country?.name).toBe(
+      "US",
+    );
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => decodeHidReportDescriptorInData(dataset, "05 0")).toThrow(/hex byte pairs/);
+    expect(() => decodeHidReportDescriptorInData(dataset, "05 01 26 ff")).toThrow(
+      /Truncated HID item at offset 2/,
+    );
+  });
+});
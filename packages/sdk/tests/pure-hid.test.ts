@@ -0,0 +1,83 @@
+import type { UsbDatasetV2 } from "../src/types";
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import {
+  getHidCountryInData,
+  getHidDescriptorTypeInData,
+  getHidItemTypeInData,
+  getHidUsageInData,
+  getHidUsagePageInData,
+  listHidUsagePagesInData,
+  searchHidUsagesInData,
+} from "../src/pure/hid";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("hid usage lookups", () => {
+  // Extra pages must sit inside the HUT block (sections are parsed in file order)
+  const dataset: UsbDatasetV2 = parseUsbIdsFull(
+    MINI_USB_IDS.replace(
+      "L 0409",
+      [
+        "HUT 07  Keyboard",
+        "\t004  Keyboard a and A",
+        "\t0e0  LeftControl",
+        "HUT 0c  Consumer",
+        "\t0e2  Mute",
+        "\t0e9  Volume Increment",
+        "L 0409",
+      ].join("\n"),
+    ),
+  );
+
+  it("resolves page + usage by numeric value regardless of key width", () => {
+    expect(getHidUsageInData(dataset, 0x07, 0xe0)).toEqual({
+      pageCode: "07",
+      pageName: "Keyboard",
+      usageCode: "0e0",
+      usageName: "LeftControl",
+    });
+    expect(getHidUsageInData(dataset, "0x01", "1")?.usageName).toBe("Usage One");
+  });
+
+  it("reports unknown usages and pages", () => {
+    expect(getHidUsageInData(dataset, 7, 0xff)).toMatchObject({
+      pageName: "Keyboard",
+      usageCode: null,
+      usageName: null,
+    });
+    expect(getHidUsageInData(dataset, 0x42, 1)).toBeNull();
+    expect(getHidUsagePageInData(dataset, "0c")?.name).toBe("Consumer");
+    expect(() => getHidUsagePageInData(dataset, "page")).toThrow(/Invalid HID usage page/);
+  });
+
+  it("lists pages in code order with usage counts", () => {
+    expect(listHidUsagePagesInData(dataset)).toEqual([
+      { pageCode: "01", name: "Usage Page Name", usageCount: 1 },
+      { pageCode: "07", name: "Keyboard", usageCount: 2 },
+      { pageCode: "0c", name: "Consumer", usageCount: 2 },
+    ]);
+  });
+
+  it("searches usage names across pages, ranking prefix matches first", () => {
+    const results = searchHidUsagesInData(dataset, "control");
+    expect(results.map((r) => r.usageName)).toEqual(["LeftControl"]);
+    expect(searchHidUsagesInData(dataset, "mute")[0]).toMatchObject({ pageCode: "0c" });
+    expect(searchHidUsagesInData(dataset, "keyboard").map((r) => r.usageName)).toEqual([
+      "Keyboard a and A",
+    ]);
+    expect(searchHidUsagesInData(dataset, "  ")).toEqual([]);
+  });
+
+  it("looks up the HID descriptor, item and country tables", () => {
+    expect(getHidDescriptorTypeInData(dataset, 1)).toEqual({
+      code: "01",
+      name: "HID Descriptor Type",
+    });
+    expect(getHidItemTypeInData(dataset, "0x02")).toEqual({ code: "02", name: "HID Item" });
+    expect(getHidItemTypeInData(dataset, 0x80)).toBeNull();
+    expect(getHidCountryInData(dataset, "1")).toEqual({ code: "01", name: "Country Code" });
+    expect(getHidCountryInData(dataset, 10)).toBeNull();
+    expect(() => getHidCountryInData(dataset, "0x01")).toThrow(/Invalid HID country code/);
+    expect(() => getHidDescriptorTypeInData(dataset, -1)).toThrow(/Invalid HID descriptor type/);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { findLangIdsInData, listLangIdsInData, resolveLangIdInData } from "../src/pure/languages";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+// Real usb.ids keys primary languages by the low 10 bits (`0009`), dialects by the high 6 bits
+const dataset = parseUsbIdsFull(
+  MINI_USB_IDS.replace(
+    "L 0409  English\r\n\t01  US",
+    [
+      "L 0007  German",
+      "\t01  German",
+      "\t02  Swiss",
+      "L 0009  English",
+      "\t01  US",
+      "\t02  UK",
+    ].join("\n"),
+  ),
+);
+
+describe("LANGID resolution", () => {
+  it("splits a LANGID into primary language and sublanguage", () => {
+    expect(resolveLangIdInData(dataset, 0x0409)).toEqual({
+      langId: "0409",
+      primaryCode: "0009",
+      sublanguageCode: "01",
+      language: "English",
+      sublanguage: "US",
+      name: "English (US)",
+    });
+    expect(resolveLangIdInData(dataset, "0x0809").name).toBe("English (UK)");
+  });
+
+  it("falls back to the primary language for neutral or unlisted sublanguages", () => {
+    expect(resolveLangIdInData(dataset, "0009")).toMatchObject({
+      sublanguage: null,
+      name: "English",
+    });
+    expect(resolveLangIdInData(dataset, 0x7c09).name).toBe("English");
+    expect(resolveLangIdInData(dataset, 0x0419)).toMatchObject({ language: null, name: null });
+    expect(() => resolveLangIdInData(dataset, 0x10000)).toThrow(/Invalid LANGID/);
+  });
+
+  it("lists every nameable LANGID in order", () => {
+    expect(listLangIdsInData(dataset).map((m) => m.langId)).toEqual([
+      "0007",
+      "0407",
+      "0807",
+      "0009",
+      "0409",
+      "0809",
+    ]);
+  });
+
+  it("looks up LANGIDs by name, exact matches first", () => {
+    expect(findLangIdsInData(dataset, "english (uk)").map((m) => m.langId)).toEqual(["0809"]);
+    expect(findLangIdsInData(dataset, "German").map((m) => m.langId)).toEqual([
+      "0007",
+      "0407",
+      "0807",
+    ]);
+    expect(findLangIdsInData(dataset, "swiss")[0].name).toBe("German (Swiss)");
+    expect(findLangIdsInData(dataset, "")).toEqual([]);
+  });
+});
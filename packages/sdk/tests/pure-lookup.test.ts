@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { lookupInData, parseUsbIdPair } from "../src/pure/lookup";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("parseUsbIdPair", () => {
+  it("accepts colon, whitespace, bare vendor and 0x forms", () => {
+    expect(parseUsbIdPair("046D:C52B")).toEqual({ vendorId: "046d", deviceId: "c52b" });
+    expect(parseUsbIdPair("046d c52b")).toEqual({ vendorId: "046d", deviceId: "c52b" });
+    expect(parseUsbIdPair("0x046d:0xc52b")).toEqual({ vendorId: "046d", deviceId: "c52b" });
+    expect(parseUsbIdPair(" 046d ")).toEqual({ vendorId: "046d", deviceId: null });
+  });
+
+  it("rejects malformed ids", () => {
+    expect(parseUsbIdPair("46d:c52b")).toBeNull();
+    expect(parseUsbIdPair("046d:c52b:0001")).toBeNull();
+    expect(parseUsbIdPair("logitech")).toBeNull();
+  });
+});
+
+describe("lookupInData", () => {
+  const dataset = parseUsbIdsFull(MINI_USB_IDS);
+
+  it("resolves vendor, device and subsystems", () => {
+    const r = lookupInData(dataset, "AAAA", "1111");
+    expect(r.vendor?.name).toBe("Fixture Vendor");
+    expect(r.device?.devname).toBe("Fixture Device");
+    expect(r.device?.subsystems?.[0]?.name).toBe("Subsystem Name");
+  });
+
+  it("returns nulls for unknown ids", () => {
+    expect(lookupInData(dataset, "aaaa", "ffff")).toMatchObject({ device: null });
+    expect(lookupInData(dataset, "ffff")).toEqual({
+      vendorId: "ffff",
+      deviceId: null,
+      vendor: null,
+      device: null,
+    });
+  });
+});
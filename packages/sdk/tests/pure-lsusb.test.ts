@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { parseLsusb } from "../src/parser/lsusb";
+import { resolveLsusbInData } from "../src/pure/lsusb";
+import { LSUSB_SHORT, LSUSB_VERBOSE } from "./fixtures/lsusb";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("resolveLsusbInData", () => {
+  const dataset = parseUsbIdsFull(MINI_USB_IDS);
+
+  it("resolves names and flags unknown IDs", () => {
+    const [root, fixture, missing] = resolveLsusbInData(dataset, parseLsusb(LSUSB_SHORT));
+    expect(root).toMatchObject({ vendorName: null, deviceName: null, unknown: true });
+    expect(fixture).toMatchObject({
+      vendorName: "Fixture Vendor",
+      deviceName: "Fixture Device",
+      unknown: false,
+    });
+    expect(missing?.unknown).toBe(true);
+  });
+
+  it("resolves interface class triplets and flags unknown classes", () => {
+    const [device] = resolveLsusbInData(dataset, parseLsusb(LSUSB_VERBOSE));
+    expect(device?.deviceClass).toMatchObject({
+      className: "Wireless Controller",
+      subclassName: "RF Controller",
+      protocolName: "Bluetooth",
+      unknown: false,
+    });
+    expect(device?.interfaces[1]).toMatchObject({ number: 1, className: null, unknown: true });
+  });
+});
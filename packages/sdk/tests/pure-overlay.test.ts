@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { toV1 } from "../src/legacy/to-v1";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { lookupInData } from "../src/pure/lookup";
+import { mergeOverlaysInData } from "../src/pure/overlay";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+const OVERLAY = [
+  "aaaa  Fixture Vendor",
+  "\t1111  Fixture Device",
+  "\t\t2222 4444  Local Subsystem",
+  "\tbeef  Prototype Board",
+  "cafe  Internal Lab",
+  "\t0001  Test Rig",
+].join("\n");
+
+describe("mergeOverlaysInData", () => {
+  const upstream = parseUsbIdsFull(MINI_USB_IDS);
+
+  it("adds local vendors, devices and subsystems tagged with their origin", () => {
+    const merged = mergeOverlaysInData(upstream, [parseUsbIdsFull(OVERLAY)]);
+
+    const vendor = lookupInData(merged, "aaaa", "beef");
+    expect(vendor.vendor?.origin).toBeUndefined();
+    expect(vendor.device).toEqual({ devid: "beef", devname: "Prototype Board", origin: "local" });
+    expect(merged.vendors.aaaa.devices["1111"].origin).toBeUndefined();
+    expect(merged.vendors.aaaa.devices["1111"].subsystems).toEqual([
+      { subvendor: "2222", subdevice: "3333", name: "Subsystem Name" },
+      { subvendor: "2222", subdevice: "4444", name: "Local Subsystem", origin: "local" },
+    ]);
+    expect(merged.vendors.cafe).toMatchObject({ name: "Internal Lab", origin: "local" });
+    expect(merged.vendors.cafe.devices["0001"].origin).toBe("local");
+    expect(merged.classes).toBe(upstream.classes);
+  });
+
+  it("renames upstream entries and lets later overlays win", () => {
+    const merged = mergeOverlaysInData(upstream, [
+      { aaaa: { vendor: "aaaa", name: "Our Name", devices: {} } },
+      {
+        aaaa: {
+          vendor: "aaaa",
+          name: "",
+          devices: { "1111": { devid: "1111", devname: "Rev B" } },
+        },
+      },
+    ]);
+    expect(merged.vendors.aaaa).toMatchObject({ name: "Our Name", origin: "local" });
+    expect(merged.vendors.aaaa.devices["1111"]).toMatchObject({
+      devname: "Rev B",
+      origin: "local",
+    });
+    expect(toV1(merged).aaaa.devices["1111"].origin).toBe("local");
+  });
+
+  it("leaves the input dataset untouched", () => {
+    mergeOverlaysInData(upstream, [parseUsbIdsFull(OVERLAY)]);
+    expect(upstream.vendors.cafe).toBeUndefined();
+    expect(upstream.vendors.aaaa.devices.beef).toBeUndefined();
+    expect(upstream.vendors.aaaa.devices["1111"].subsystems).toHaveLength(1);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { resolveUsbDeviceInData } from "../src/pure/resolve-device";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+describe("resolveUsbDeviceInData", () => {
+  const dataset = parseUsbIdsFull(MINI_USB_IDS);
+
+  it("names the device and keeps extra interface fields next to the decoded class", () => {
+    const resolved = resolveUsbDeviceInData(dataset, {
+      vendorId: "aaaa",
+      productId: "1111",
+      deviceClass: null,
+      interfaces: [
+        { name: "1-1:1.0", number: 0, classCode: "03", subclassCode: "01", protocolCode: "01" },
+      ],
+    });
+    expect(resolved).toEqual({
+      vendorName: "Fixture Vendor",
+      deviceName: "Fixture Device",
+      unknown: false,
+      deviceClass: null,
+      interfaces: [
+        {
+          name: "1-1:1.0",
+          number: 0,
+          classCode: "03",
+          subclassCode: "01",
+          protocolCode: "01",
+          className: "Wireless Controller",
+          subclassName: "RF Controller",
+          protocolName: "Bluetooth",
+          unknown: false,
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import {
+  buildSubsystemIndex,
+  findSubsystemDevices,
+  getSubsystemInData,
+} from "../src/pure/subsystems";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+const dataset = parseUsbIdsFull(
+  MINI_USB_IDS.replace(
+    "C 03",
+    [
+      "\t1112  Second Device",
+      "\t\t2222 3333  Shared Subsystem",
+      "\t\t2222 4444  Other Subsystem",
+      "bbbb  Other Vendor",
+      "\t0001  Bridge",
+      "\t\t2222 3333  OEM Bridge",
+      "C 03",
+    ].join("\n"),
+  ),
+);
+
+describe("subsystem lookups", () => {
+  const index = buildSubsystemIndex(dataset);
+
+  it("finds every parent device shipping a subsystem", () => {
+    expect(
+      findSubsystemDevices(index, "2222", "3333").map((r) => `${r.vendorId}:${r.deviceId}`),
+    ).toEqual(["aaaa:1111", "aaaa:1112", "bbbb:0001"]);
+    expect(findSubsystemDevices(index, "2222", "4444")[0]).toEqual({
+      vendorId: "aaaa",
+      vendorName: "Fixture Vendor",
+      deviceId: "1112",
+      deviceName: "Second Device",
+      subvendor: "2222",
+      subdevice: "4444",
+      name: "Other Subsystem",
+    });
+  });
+
+  it("lists all subsystems of a subvendor when the subdevice is omitted", () => {
+    expect(findSubsystemDevices(index, "2222")).toHaveLength(4);
+    expect(findSubsystemDevices(index, "ffff")).toEqual([]);
+  });
+
+  it("names a subsystem under its parent device", () => {
+    expect(getSubsystemInData(dataset, "BBBB", "0001", "2222", "3333")?.name).toBe("OEM Bridge");
+    expect(getSubsystemInData(dataset, "bbbb", "0001", "2222", "4444")).toBeNull();
+    expect(() => getSubsystemInData(dataset, "bbbb", "1", "2222", "4444")).toThrow(
+      /Invalid device ID/,
+    );
+  });
+});
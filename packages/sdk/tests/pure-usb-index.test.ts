@@ -0,0 +1,122 @@
+import type { UsbIdsData } from "../src/types";
+import { describe, expect, it } from "vitest";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { filterDevices, filterVendors, searchInData } from "../src/pure/query";
+import { buildUsbIndex, getInIndex, isUsbIndex } from "../src/pure/usb-index";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+import { mockUsbData } from "./setup";
+
+const data: UsbIdsData = {
+  ...mockUsbData,
+  "046d": {
+    vendor: "046d",
+    name: "Logitech, Inc.",
+    devices: {
+      c52b: { devid: "c52b", devname: "Unifying Receiver" },
+      c077: { devid: "c077", devname: "M105 Optical Mouse" },
+      "0a44": { devid: "0a44", devname: "Headset H390" },
+    },
+  },
+  "0a12": {
+    vendor: "0a12",
+    name: "Cambridge Silicon Radio, Ltd",
+    devices: {
+      "0001": { devid: "0001", devname: "Bluetooth Dongle (HCI mode)" },
+      "1004": { devid: "1004", devname: "Bluetooth  Remote Control" },
+    },
+  },
+};
+
+const QUERIES = [
+  "apple",
+  "APPLE, INC.",
+  "root hub",
+  "2.0 root",
+  "ot h",
+  "bluetooth",
+  "tooth",
+  "h",
+  "0a",
+  "0001",
+  "c52b",
+  "46d",
+  "mouse",
+  "  remote ",
+  "bluetooth  remote",
+  "(hci",
+  "iphone 5/5c",
+  "nothing like this",
+];
+
+describe("UsbIndex", () => {
+  const index = buildUsbIndex(data);
+
+  it("returns the same search results as a scan of the data", () => {
+    for (const query of QUERIES) {
+      expect(searchInData(index, query), query).toEqual(searchInData(data, query));
+    }
+    expect(searchInData(index, "   ")).toEqual([]);
+  });
+
+  it("filters vendors by substring like the scan", () => {
+    for (const query of [...QUERIES, "046D", " "]) {
+      expect(filterVendors(index, query), query).toEqual(filterVendors(data, query));
+    }
+    expect(filterVendors(index)).toEqual(Object.values(data));
+  });
+
+  it("answers object filters like the scan", () => {
+    const filters = [
+      { name: "inc" },
+      { name: "INC", search: "apple" },
+      { search: "46" },
+      { id: "05AC" },
+      { id: "0a", name: "radio" },
+      { id: "0a", name: "nothing" },
+      { name: " " },
+      {},
+    ];
+    for (const filter of filters) {
+      expect(filterVendors(index, filter), JSON.stringify(filter)).toEqual(
+        filterVendors(data, filter),
+      );
+    }
+  });
+
+  it("filters devices of one vendor or of every vendor", () => {
+    const filters = ["bluetooth", "C52B", "o", { name: "mouse" }, { id: "0", search: "h" }];
+    for (const filter of filters) {
+      for (const vendorId of Object.keys(data)) {
+        expect(
+          filterDevices(index, filter, vendorId.toUpperCase()),
+          JSON.stringify(filter),
+        ).toEqual(filterDevices(data[vendorId], filter));
+      }
+      expect(filterDevices(index, filter)).toEqual(
+        Object.values(data).flatMap((vendor) => filterDevices(vendor, filter)),
+      );
+    }
+    expect(filterDevices(index, (device) => device.devid === "0001")).toHaveLength(2);
+    expect(filterDevices(index, undefined, "046d")).toEqual(Object.values(data["046d"].devices));
+    expect(filterDevices(index, "mouse", "ffff")).toEqual([]);
+  });
+
+  it("keeps v2 record types for dataset vendors", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const results = searchInData(buildUsbIndex(dataset.vendors), "fixture");
+    expect(results[0]?.device.subsystems).toHaveLength(1);
+    expect(results).toEqual(searchInData(dataset.vendors, "fixture"));
+  });
+
+  it("indexes lowercased tokens, short grams and vid:pid pairs", () => {
+    expect(index.tokens.get("bluetooth")).toEqual({ vendors: [], devices: [3, 8, 9] });
+    expect(index.tokens.get("046d")?.vendors).toEqual([3]);
+    expect(index.grams.get("too")).toEqual(["bluetooth"]);
+    expect(index.grams.get("(h")).toEqual(["(hci"]);
+    expect(index.byVendorId.get("046d")).toBe(3);
+    expect(getInIndex(index, "046D", "C52B")?.device.devname).toBe("Unifying Receiver");
+    expect(getInIndex(index, "046d", "ffff")).toBeNull();
+    expect(isUsbIndex(index)).toBe(true);
+    expect(isUsbIndex(data)).toBe(false);
+  });
+});
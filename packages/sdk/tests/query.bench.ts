@@ -1,7 +1,10 @@
 import { bench, describe } from "vitest";
 import { filterVendors, searchInData } from "../src/pure/query";
+import { buildUsbIndex } from "../src/pure/usb-index";
 import { mockUsbData } from "./setup";
 
+const mockIndex = buildUsbIndex(mockUsbData);
+
 describe("query bench", () => {
   bench("filterVendors exact id", () => {
     filterVendors(mockUsbData, "05ac");
@@ -10,4 +13,8 @@ describe("query bench", () => {
   bench("searchInData small dataset", () => {
     searchInData(mockUsbData, "Apple");
   });
+
+  bench("searchInData small dataset via UsbIndex", () => {
+    searchInData(mockIndex, "Apple");
+  });
 });
@@ -1,15 +1,23 @@
 import type { VersionInfo } from "../src/types";
+import { spawnSync } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import { afterEach, describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import {
+  acquireFileLock,
+  commitFiles,
   loadJsonFile,
   loadVersionInfo,
   saveUsbIdsToFile,
   saveVersionInfo,
 } from "../src/repository/file-store";
 
+vi.mock("node:fs", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:fs")>();
+  return { ...actual, renameSync: vi.fn(actual.renameSync) };
+});
+
 describe("repository file-store", () => {
   let dir: string;
 
@@ -79,4 +87,57 @@ describe("repository file-store", () => {
     const parsed = JSON.parse(content);
     expect(parsed).toEqual(data);
   });
+
+  it("commitFiles replaces every file or restores all of them", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "usb-repo-"));
+    const a = path.join(dir, "usb.ids");
+    const b = path.join(dir, "usb.ids.json");
+    const c = path.join(dir, "usb.ids.version.json");
+    fs.writeFileSync(a, "old a");
+    fs.writeFileSync(b, "old b");
+
+    await commitFiles([
+      { filePath: a, content: "new a" },
+      { filePath: b, content: "new b" },
+      { filePath: c, content: "new c" },
+    ]);
+    expect([a, b, c].map((p) => fs.readFileSync(p, "utf8"))).toEqual(["new a", "new b", "new c"]);
+    expect(fs.readdirSync(dir)).toHaveLength(3);
+
+    // Fail moving the second file into place, after `a` was replaced and `b` moved aside
+    const actualRename = vi.mocked(fs.renameSync).getMockImplementation()!;
+    let calls = 0;
+    vi.mocked(fs.renameSync).mockImplementation((from, to) => {
+      if (++calls === 4) throw new Error("disk full");
+      actualRename(from, to);
+    });
+    try {
+      await expect(
+        commitFiles([
+          { filePath: a, content: "newer a" },
+          { filePath: b, content: "newer b" },
+          { filePath: c, content: "newer c" },
+        ]),
+      ).rejects.toThrow("Failed to write data files: disk full");
+    } finally {
+      vi.mocked(fs.renameSync).mockImplementation(actualRename);
+    }
+    expect([a, b, c].map((p) => fs.readFileSync(p, "utf8"))).toEqual(["new a", "new b", "new c"]);
+    expect(fs.readdirSync(dir).sort()).toEqual(["usb.ids", "usb.ids.json", "usb.ids.version.json"]);
+  });
+
+  it("acquireFileLock excludes concurrent holders and takes over stale locks", () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "usb-repo-"));
+    const lockPath = path.join(dir, "usb.ids.lock");
+    const release = acquireFileLock(lockPath);
+    expect(() => acquireFileLock(lockPath)).toThrow(`held by running process ${process.pid}`);
+    release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    const exited = spawnSync(process.execPath, ["-e", ""]).pid;
+    fs.writeFileSync(lockPath, `${exited}\n`);
+    const releaseStale = acquireFileLock(lockPath);
+    expect(fs.readFileSync(lockPath, "utf8")).toBe(`${process.pid}\n`);
+    releaseStale();
+  });
 });
@@ -2,20 +2,31 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { USB_IDS_JSON_FILE, USB_IDS_VERSION_JSON_FILE } from "../src/config";
-import { downloadFromUrls } from "../src/fetcher";
-import { fetchUsbIdsData } from "../src/service/usb-ids-data";
+import {
+  USB_IDS_CHANGELOG_JSON_FILE,
+  USB_IDS_JSON_FILE,
+  USB_IDS_VERSION_JSON_FILE,
+} from "../src/config";
+import { ERROR_CODES } from "../src/errors";
+import { downloadFromUrlsConditional } from "../src/fetcher";
+import { fetchUsbIdsData, loadChangelog, saveUsbIdsToFile } from "../src/service/usb-ids-data";
 import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
 
 vi.mock("../src/fetcher", () => ({
-  downloadFromUrls: vi.fn(),
+  downloadFromUrlsConditional: vi.fn(),
 }));
 
+const URL = "https://example.com/usb.ids";
+
+function served(content: string, validators = {}) {
+  return { url: URL, notModified: false as const, content, validators };
+}
+
 describe("fetchUsbIdsData", () => {
   let root: string;
 
   beforeEach(() => {
-    vi.mocked(downloadFromUrls).mockResolvedValue(MINI_USB_IDS);
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue(served(MINI_USB_IDS));
     root = fs.mkdtempSync(path.join(os.tmpdir(), "usb-svc-"));
     fs.writeFileSync(
       path.join(root, "package.json"),
@@ -28,7 +39,9 @@ describe("fetchUsbIdsData", () => {
   });
 
   it("downloads, parses v2, writes version file when forced", async () => {
-    const r = await fetchUsbIdsData(["https://example.com/usb.ids"], USB_IDS_JSON_FILE, root, true);
+    const r = await fetchUsbIdsData(["https://example.com/usb.ids"], USB_IDS_JSON_FILE, root, {
+      forceUpdate: true,
+    });
     expect(r.source).toBe("api");
     expect(r.versionInfo.releaseVersion.match(/^2\.\d{8}\.\d+$/)).toBeTruthy();
     expect(r.data).toHaveProperty("schemaVersion", 2);
@@ -36,4 +49,141 @@ describe("fetchUsbIdsData", () => {
     const verPath = path.join(root, USB_IDS_VERSION_JSON_FILE);
     expect(fs.existsSync(verPath)).toBe(true);
   });
+
+  it("appends a changelog entry when downloaded content replaces the dataset", async () => {
+    const urls = ["https://example.com/usb.ids"];
+    const first = await fetchUsbIdsData(urls, USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    expect(first.changelogEntry).toBeNull();
+    await saveUsbIdsToFile(first.data, path.join(root, USB_IDS_JSON_FILE));
+
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue(
+      served(
+        MINI_USB_IDS.replace("2026.05.06", "2026.06.01")
+          .replace("Fixture Vendor", "Renamed Vendor")
+          .replace("C 03", "bbbb  New Vendor\r\n\t0001  New Device\r\nC 03"),
+      ),
+    );
+    const second = await fetchUsbIdsData(urls, USB_IDS_JSON_FILE, root);
+    expect(second.changelogEntry).toMatchObject({
+      fromUpstreamVersion: "2026.05.06",
+      toUpstreamVersion: "2026.06.01",
+      releaseVersion: second.versionInfo.releaseVersion,
+      vendors: { added: 1, removed: 0, renamed: 1 },
+      devices: { added: 1, removed: 0, renamed: 0 },
+    });
+    expect(second.changelogEntry?.previous.upstreamHash).toBe(first.versionInfo.upstreamHash);
+
+    const history = loadChangelog(path.join(root, USB_IDS_CHANGELOG_JSON_FILE));
+    expect(history).toHaveLength(1);
+    expect(history[0].toUpstreamVersion).toBe("2026.06.01");
+
+    const unchanged = await fetchUsbIdsData(urls, USB_IDS_JSON_FILE, root);
+    expect(unchanged.changelogEntry).toBeNull();
+    expect(loadChangelog(path.join(root, USB_IDS_CHANGELOG_JSON_FILE))).toHaveLength(1);
+  });
+
+  it("merges overlays into fetched data but not into the manifest counts", async () => {
+    fs.writeFileSync(path.join(root, "local.ids"), "cafe  Internal Lab\n\t0001  Test Rig\n");
+    const r = await fetchUsbIdsData(["https://example.com/usb.ids"], USB_IDS_JSON_FILE, root, {
+      forceUpdate: true,
+      overlayFiles: ["local.ids"],
+    });
+    expect(r.data).toHaveProperty(["vendors", "cafe", "origin"], "local");
+    expect(r.versionInfo.vendorCount).toBe(1);
+  });
+
+  it("writes the parsed dataset to dataFile and leaves a separate fallback file alone", async () => {
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue(served(MINI_USB_IDS));
+    fs.writeFileSync(path.join(root, "fallback.json"), "{}");
+    await fetchUsbIdsData([URL], "fallback.json", root, {
+      forceUpdate: true,
+      dataFile: "data.json",
+    });
+    expect(fs.readFileSync(path.join(root, "fallback.json"), "utf8")).toBe("{}");
+    const written = JSON.parse(fs.readFileSync(path.join(root, "data.json"), "utf8"));
+    expect(written).toHaveProperty(["vendors", "aaaa", "name"], "Fixture Vendor");
+  });
+
+  it("stores validators and serves local data on 304 Not Modified", async () => {
+    const etag = '"v1"';
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue(served(MINI_USB_IDS, { etag }));
+    const first = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    expect(first.versionInfo.sourceValidators).toEqual({ [URL]: { etag } });
+    expect(vi.mocked(downloadFromUrlsConditional)).toHaveBeenLastCalledWith(
+      [URL],
+      {},
+      expect.objectContaining({ currentVersion: undefined }),
+    );
+    await saveUsbIdsToFile(first.data, path.join(root, USB_IDS_JSON_FILE));
+
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue({ url: URL, notModified: true });
+    const second = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root);
+    expect(vi.mocked(downloadFromUrlsConditional)).toHaveBeenLastCalledWith(
+      [URL],
+      { [URL]: { etag } },
+      expect.objectContaining({ currentVersion: first.versionInfo.upstreamVersion }),
+    );
+    expect(second).toMatchObject({ source: "fallback", notModified: true, changelogEntry: null });
+    expect(second.data).toEqual(first.data);
+    expect(second.versionInfo).toEqual(first.versionInfo);
+
+    await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    expect(vi.mocked(downloadFromUrlsConditional)).toHaveBeenLastCalledWith(
+      [URL],
+      {},
+      expect.objectContaining({ currentVersion: first.versionInfo.upstreamVersion }),
+    );
+  });
+
+  it("records validators even when the downloaded content is unchanged", async () => {
+    const first = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    expect(first.versionInfo.sourceValidators).toBeUndefined();
+    await saveUsbIdsToFile(first.data, path.join(root, USB_IDS_JSON_FILE));
+
+    const lastModified = "Wed, 06 May 2026 00:00:00 GMT";
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue(
+      served(MINI_USB_IDS, { lastModified }),
+    );
+    const second = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root);
+    expect(second.source).toBe("fallback");
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(root, USB_IDS_VERSION_JSON_FILE), "utf8"),
+    );
+    expect(manifest.sourceValidators).toEqual({ [URL]: { lastModified } });
+    expect(manifest.releaseVersion).toBe(first.versionInfo.releaseVersion);
+  });
+
+  it("refuses older upstream content unless downgrades are allowed", async () => {
+    const first = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    await saveUsbIdsToFile(first.data, path.join(root, USB_IDS_JSON_FILE));
+    const versionPath = path.join(root, USB_IDS_VERSION_JSON_FILE);
+    const manifest = fs.readFileSync(versionPath, "utf8");
+
+    const older = MINI_USB_IDS.replace("2026.05.06", "2026.01.01");
+    vi.mocked(downloadFromUrlsConditional).mockResolvedValue(served(older));
+    const refused = fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    await expect(refused).rejects.toMatchObject({ code: ERROR_CODES.DOWNGRADE_REFUSED });
+    await expect(refused).rejects.toThrow(
+      `Refusing to replace upstream 2026.05.06 with older 2026.01.01 from ${URL}`,
+    );
+    expect(fs.readFileSync(versionPath, "utf8")).toBe(manifest);
+
+    const allowed = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, {
+      forceUpdate: true,
+      allowDowngrade: true,
+    });
+    expect(allowed.versionInfo.upstreamVersion).toBe("2026.01.01");
+  });
+
+  it("writes all artifacts together and refuses to run while locked", async () => {
+    const r = await fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true });
+    expect(fs.readFileSync(path.join(root, "usb.ids"), "utf8")).toBe(MINI_USB_IDS);
+    expect(JSON.parse(fs.readFileSync(path.join(root, USB_IDS_JSON_FILE), "utf8"))).toEqual(r.data);
+    expect(fs.existsSync(path.join(root, "usb.ids.lock"))).toBe(false);
+
+    fs.writeFileSync(path.join(root, "usb.ids.lock"), `${process.pid}\n`);
+    await expect(
+      fetchUsbIdsData([URL], USB_IDS_JSON_FILE, root, { forceUpdate: true }),
+    ).rejects.toThrow(`held by running process ${process.pid}`);
+  });
 });
@@ -0,0 +1,106 @@
+import { generateKeyPairSync } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadUsbDataFromUrl } from "../src/browser";
+import { ERROR_CODES } from "../src/errors";
+import { signEd25519, verifyEd25519SignatureSync } from "../src/node/signing";
+import { decodeEd25519PublicKey, verifyEd25519Signature } from "../src/signature";
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const publicPem = publicKey.export({ type: "spki", format: "pem" }).toString();
+const privatePem = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+const rawPublicKey = publicKey.export({ format: "jwk" }).x!;
+
+describe("ed25519 signatures", () => {
+  it("verifies node signatures with Web Crypto and node:crypto", async () => {
+    const signature = signEd25519("usb.ids content", privatePem);
+    expect(await verifyEd25519Signature("usb.ids content", signature, publicPem)).toBe(true);
+    expect(verifyEd25519SignatureSync(Buffer.from("usb.ids content"), signature, publicPem)).toBe(
+      true,
+    );
+    expect(await verifyEd25519Signature("usb.ids c0ntent", signature, publicPem)).toBe(false);
+    expect(verifyEd25519SignatureSync("usb.ids c0ntent", signature, publicPem)).toBe(false);
+  });
+
+  it("accepts base64 SPKI and raw 32-byte keys", async () => {
+    const spki = Buffer.from(decodeEd25519PublicKey(publicPem)).toString("base64");
+    const raw = Buffer.from(rawPublicKey, "base64url").toString("base64");
+    expect(decodeEd25519PublicKey(raw)).toEqual(decodeEd25519PublicKey(spki));
+    const signature = signEd25519("x", privatePem);
+    expect(await verifyEd25519Signature("x", signature, raw)).toBe(true);
+  });
+
+  it("rejects keys that are not Ed25519", () => {
+    const rsa = generateKeyPairSync("rsa", { modulusLength: 1024 }).publicKey;
+    const pem = rsa.export({ type: "spki", format: "pem" }).toString();
+    expect(() => decodeEd25519PublicKey(pem)).toThrow(/not an Ed25519 key/);
+  });
+});
+
+describe("loadUsbDataFromUrl with a public key", () => {
+  const body = JSON.stringify({ abcd: { vendor: "abcd", name: "Signed", devices: {} } });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function serve(files: Record<string, string>) {
+    const fetchMock = vi.fn(async (url: string) =>
+      url in files ? new Response(files[url]) : new Response("missing", { status: 404 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  it("returns data whose detached signature matches", async () => {
+    const fetchMock = serve({
+      "https://cdn.test/usb.ids.json": body,
+      "https://cdn.test/usb.ids.json.sig": signEd25519(body, privatePem),
+    });
+    const data = await loadUsbDataFromUrl("https://cdn.test/usb.ids.json", {
+      publicKey: publicPem,
+    });
+    expect(data.abcd?.name).toBe("Signed");
+    expect(fetchMock).toHaveBeenCalledWith("https://cdn.test/usb.ids.json.sig");
+  });
+
+  it("throws SIGNATURE_INVALID for tampered data", async () => {
+    serve({
+      "https://cdn.test/usb.ids.json": body.replace("Signed", "Forged"),
+      "https://cdn.test/usb.ids.json.sig": signEd25519(body, privatePem),
+    });
+    await expect(
+      loadUsbDataFromUrl("https://cdn.test/usb.ids.json", { publicKey: publicPem }),
+    ).rejects.toMatchObject({ code: ERROR_CODES.SIGNATURE_INVALID });
+  });
+
+  it("throws SIGNATURE_INVALID when the signature is missing", async () => {
+    serve({ "https://cdn.test/usb.ids.json": body });
+    await expect(
+      loadUsbDataFromUrl("https://cdn.test/usb.ids.json", { publicKey: publicPem }),
+    ).rejects.toMatchObject({ code: ERROR_CODES.SIGNATURE_INVALID });
+  });
+
+  it("throws INVALID_PARAMETER for a key that is not Ed25519", async () => {
+    serve({
+      "https://cdn.test/usb.ids.json": body,
+      "https://cdn.test/usb.ids.json.sig": signEd25519(body, privatePem),
+    });
+    await expect(
+      loadUsbDataFromUrl("https://cdn.test/usb.ids.json", { publicKey: "bm90LWEta2V5" }),
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_PARAMETER });
+  });
+
+  it("throws SIGNATURE_INVALID when Web Crypto cannot check Ed25519", async () => {
+    serve({
+      "https://cdn.test/usb.ids.json": body,
+      "https://cdn.test/usb.ids.json.sig": signEd25519(body, privatePem),
+    });
+    const importKey = vi
+      .spyOn(crypto.subtle, "importKey")
+      .mockRejectedValue(new DOMException("Unrecognized name", "NotSupportedError"));
+    await expect(
+      loadUsbDataFromUrl("https://cdn.test/usb.ids.json", { publicKey: publicPem }),
+    ).rejects.toMatchObject({ code: ERROR_CODES.SIGNATURE_INVALID });
+    importKey.mockRestore();
+  });
+});
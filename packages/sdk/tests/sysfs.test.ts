@@ -0,0 +1,87 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { annotateSysfsDevices, scanSysfsUsbDevices } from "../src/node/sysfs";
+import { parseUsbIdsFull } from "../src/parser/full-usb-ids";
+import { MINI_USB_IDS } from "./fixtures/mini-usb.ids";
+
+function writeAttrs(dir: string, attrs: Record<string, string>): void {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [name, value] of Object.entries(attrs)) {
+    fs.writeFileSync(path.join(dir, name), `${value}\n`);
+  }
+}
+
+describe("sysfs scan", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "usb-sysfs-"));
+    writeAttrs(path.join(root, "1-1"), {
+      idVendor: "aaaa",
+      idProduct: "1111",
+      bDeviceClass: "03",
+      bDeviceSubClass: "01",
+      bDeviceProtocol: "01",
+      busnum: "1",
+      devnum: "4",
+      manufacturer: "ACME",
+      product: "Prototype Radio",
+    });
+    writeAttrs(path.join(root, "1-1", "1-1:1.0"), {
+      bInterfaceNumber: "00",
+      bInterfaceClass: "ff",
+      bInterfaceSubClass: "00",
+      bInterfaceProtocol: "00",
+    });
+    writeAttrs(path.join(root, "1-2"), { idVendor: "ffff", idProduct: "0001" });
+    writeAttrs(path.join(root, "1-1:1.0"), { bInterfaceClass: "ff" });
+    fs.mkdirSync(path.join(root, "not-a-device"));
+  });
+
+  afterEach(() => {
+    if (root && fs.existsSync(root)) fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reads device and interface attributes from the fixture root", () => {
+    const devices = scanSysfsUsbDevices({ sysfsRoot: root });
+    expect(devices.map((d) => d.name)).toEqual(["1-1", "1-2"]);
+    expect(devices[0]).toMatchObject({
+      vendorId: "aaaa",
+      productId: "1111",
+      busnum: 1,
+      devnum: 4,
+      deviceClass: { classCode: "03", subclassCode: "01", protocolCode: "01" },
+      manufacturer: "ACME",
+      product: "Prototype Radio",
+      interfaces: [
+        { name: "1-1:1.0", number: 0, classCode: "ff", subclassCode: "00", protocolCode: "00" },
+      ],
+    });
+    expect(devices[1]).toMatchObject({ manufacturer: null, deviceClass: null, interfaces: [] });
+  });
+
+  it("annotates devices with database names and flags unknown IDs", () => {
+    const dataset = parseUsbIdsFull(MINI_USB_IDS);
+    const [known, unknown] = annotateSysfsDevices(
+      dataset,
+      scanSysfsUsbDevices({ sysfsRoot: root }),
+    );
+    expect(known).toMatchObject({
+      vendorName: "Fixture Vendor",
+      deviceName: "Fixture Device",
+      product: "Prototype Radio",
+      unknown: false,
+      deviceClass: { protocolName: "Bluetooth" },
+    });
+    expect(known?.interfaces[0]).toMatchObject({ unknown: true });
+    expect(unknown).toMatchObject({ vendorName: null, unknown: true });
+  });
+
+  it("throws when the sysfs root is missing", () => {
+    expect(() => scanSysfsUsbDevices({ sysfsRoot: path.join(root, "missing") })).toThrow(
+      /sysfs USB tree not found/,
+    );
+  });
+});
@@ -125,6 +125,26 @@ describe("normalizeVersionInfo", () => {
     });
   });
 
+  it("keeps well-formed source validators and drops the rest", () => {
+    const info = normalizeVersionInfo({
+      releaseVersion: "2.20260101.1",
+      upstreamVersion: "2026.04.04",
+      upstreamHash: "z",
+      sourceValidators: {
+        "https://a.example/usb.ids": { etag: '"abc"', lastModified: 5 },
+        "https://b.example/usb.ids": { etag: null },
+      },
+    });
+    expect(info?.sourceValidators).toEqual({ "https://a.example/usb.ids": { etag: '"abc"' } });
+    expect(
+      normalizeVersionInfo({
+        releaseVersion: "2.20260101.1",
+        upstreamVersion: "x",
+        upstreamHash: "z",
+      }),
+    ).not.toHaveProperty("sourceValidators");
+  });
+
   it("uses fetchTime and fetchTimeFormatted when build* absent", () => {
     expect(
       normalizeVersionInfo({
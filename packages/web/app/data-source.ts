@@ -1,3 +1,5 @@
+import { loadUsbDataFromUrl } from "@usb-ids/sdk/browser";
+
 const UI_LOCAL_BASE_URL = "/__usb_ids__/";
 const USB_IDS_JSON_FILE = "usb.ids.json";
 const USB_IDS_VERSION_JSON_FILE = "usb.ids.version.json";
@@ -5,6 +7,9 @@ const USB_IDS_VERSION_JSON_FILE = "usb.ids.version.json";
 const PKG_VERSION =
   typeof import.meta.env.VERSION === "string" ? import.meta.env.VERSION : "latest";
 
+/** Ed25519 key the npm CDN files must be signed with; empty disables the check. */
+const PUBLIC_KEY = typeof import.meta.env.PUBLIC_KEY === "string" ? import.meta.env.PUBLIC_KEY : "";
+
 export function getDataPackageVersion(): string {
   return PKG_VERSION;
 }
@@ -13,17 +18,24 @@ export function isLocalDataMode(): boolean {
   return import.meta.env.BASE_URL === UI_LOCAL_BASE_URL;
 }
 
+/** Fetch JSON; with `PUBLIC_KEY` set the bytes must match `${url}.sig` before they are parsed. */
+function fetchJson<T>(url: string): Promise<T> {
+  return loadUsbDataFromUrl<T>(url, PUBLIC_KEY ? { publicKey: PUBLIC_KEY } : {});
+}
+
+/**
+ * Load from the npm CDN, falling back to the copy deployed with the UI. With `PUBLIC_KEY` set the
+ * fallback must be signed as well, and a failure is thrown instead of serving empty data.
+ */
 export async function loadDataFromNpm<T>(pkgVersion: string, file: string): Promise<T> {
   try {
-    const response = await fetch(`https://unpkg.com/usb.ids@${pkgVersion}/${file}`);
-    if (response.ok) return (await response.json()) as T;
-    throw new Error(`Failed to fetch from npm CDN: ${response.status}`);
+    return await fetchJson<T>(`https://unpkg.com/usb.ids@${pkgVersion}/${file}`);
   } catch (error) {
     console.warn(`Failed to load USB IDs from npm (@${pkgVersion}), falling back to local:`, error);
     try {
-      const fallbackResponse = await fetch(`${import.meta.env.BASE_URL}${file}`);
-      if (fallbackResponse.ok) return (await fallbackResponse.json()) as T;
+      return await fetchJson<T>(`${import.meta.env.BASE_URL}${file}`);
     } catch (fallbackError) {
+      if (PUBLIC_KEY) throw fallbackError;
       console.error("Failed to load fallback data:", fallbackError);
     }
     return {} as T;
@@ -1,7 +1,13 @@
-import type { UsbDatasetV2, UsbIdsData, VersionInfo } from "@usb-ids/sdk/browser";
+import type {
+  UsbDatasetV2,
+  UsbIdsData,
+  UsbIndex,
+  UsbVendor,
+  VersionInfo,
+} from "@usb-ids/sdk/browser";
 import type { DeviceResult } from "./search";
 import type { ThemeMode } from "./theme";
-import { isDatasetV2, toV1 } from "@usb-ids/sdk/browser";
+import { buildUsbIndex, isDatasetV2, toV1 } from "@usb-ids/sdk/browser";
 import { loadUsbIdsJson, loadVersionJson } from "./data-source";
 import { createDeviceCardElement } from "./render/device-card";
 import { searchUsbData } from "./search";
@@ -14,6 +20,8 @@ import "./styles.css";
 if (import.meta.env?.DEV) document.title = `[DEV] ${document.title}`;
 
 let currentData: UsbIdsData = {};
+/** Built once per load so search-as-you-type does not rescan every vendor and device */
+let currentIndex: UsbIndex<UsbVendor> = buildUsbIndex(currentData);
 let currentResults: DeviceResult[] = [];
 let currentPageSlice: DeviceResult[] = [];
 let currentPage = 1;
@@ -189,7 +197,7 @@ function handleSearch(): void {
   const query = elements.searchInput.value.trim();
   elements.clearSearch.style.display = query ? "block" : "none";
 
-  currentResults = searchUsbData(currentData, { query });
+  currentResults = searchUsbData(currentIndex, { query });
   currentPage = 1;
 
   updateUrlParams(query, currentPage, itemsPerPage);
@@ -282,6 +290,7 @@ async function initializeApp(): Promise<void> {
     const usbIdsRaw = await loadUsbIdsJson<UsbIdsData | UsbDatasetV2>();
     const usbIdsData = isDatasetV2(usbIdsRaw) ? toV1(usbIdsRaw) : usbIdsRaw;
     currentData = usbIdsData;
+    currentIndex = buildUsbIndex(currentData);
 
     await loadVersionInfo();
 
@@ -1,5 +1,5 @@
-import type { UsbDevice, UsbVendor } from "@usb-ids/sdk/browser";
-import { searchInData } from "@usb-ids/sdk/browser";
+import type { UsbDevice, UsbIndex, UsbVendor } from "@usb-ids/sdk/browser";
+import { isUsbIndex, searchInData } from "@usb-ids/sdk/browser";
 
 export interface DeviceResult {
   device: UsbDevice & { devid: string };
@@ -16,10 +16,11 @@ function normalizeText(text: string): string {
 }
 
 export function searchUsbData(
-  data: Record<string, UsbVendor>,
+  source: Record<string, UsbVendor> | UsbIndex<UsbVendor>,
   options: SearchOptions,
 ): DeviceResult[] {
   const { query } = options;
+  const data = isUsbIndex(source) ? source.data : source;
   const normalizedQuery = normalizeText(query);
   if (!normalizedQuery) {
     return Object.entries(data).flatMap(([vendorId, vendor]) =>
@@ -31,7 +32,7 @@ export function searchUsbData(
     );
   }
 
-  return searchInData(data, normalizedQuery).map(({ vendor, device }) => {
+  return searchInData(source, normalizedQuery).map(({ vendor, device }) => {
     const vendorIdMatch = normalizeText(vendor.vendor).includes(normalizedQuery);
     const vendorNameMatch = normalizeText(vendor.name).includes(normalizedQuery);
     const deviceIdMatch = normalizeText(device.devid).includes(normalizedQuery);
@@ -18,6 +18,7 @@ export default defineConfig(() => ({
   },
   define: {
     "import.meta.env.VERSION": JSON.stringify(process.env.VITE_DATA_PKG_VERSION ?? "latest"),
+    "import.meta.env.PUBLIC_KEY": JSON.stringify(process.env.VITE_USB_IDS_PUBLIC_KEY ?? ""),
   },
   build: {
     chunkSizeWarningLimit: 2048,